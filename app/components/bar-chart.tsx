@@ -0,0 +1,39 @@
+import { Box, Text } from "@chakra-ui/react"
+
+const WIDTH = 600
+const HEIGHT = 160
+const GAP = 2
+
+// Lightweight SVG bar chart; hovering a bar shows its label and value
+export function BarChart({ bars, color = "#63b3ed", label }: { bars: { label: string; value: number }[]; color?: string; label: string }) {
+  if (bars.length === 0) {
+    return (
+      <Text color="gray.400" fontSize="sm">
+        Nothing to chart yet.
+      </Text>
+    )
+  }
+
+  const max = Math.max(1, ...bars.map(bar => bar.value))
+  const width = WIDTH / bars.length
+
+  return (
+    <Box w="full">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={label}>
+        {bars.map((bar, index) => {
+          const height = (bar.value / max) * HEIGHT
+          return (
+            <rect key={index} x={index * width + GAP / 2} y={HEIGHT - height} width={Math.max(1, width - GAP)} height={height} fill={color}>
+              <title>{`${bar.label}: ${bar.value}`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      <Box display="flex" justifyContent="space-between" fontSize="xs" color="gray.400">
+        <Text>{bars[0].label}</Text>
+        <Text>max {max}</Text>
+        <Text>{bars[bars.length - 1].label}</Text>
+      </Box>
+    </Box>
+  )
+}
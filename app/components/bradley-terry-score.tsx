@@ -0,0 +1,29 @@
+import { Text } from "@chakra-ui/react"
+
+export interface BradleyTerryScore {
+  rank: number
+  rating: number
+  ratingLow: number
+  ratingHigh: number
+  rankLow: number
+  rankHigh: number
+}
+
+// An image's place in the latest Bradley–Terry fit, with the range of ranks it could plausibly hold
+export function BradleyTerryScore({ score, confidence }: { score: BradleyTerryScore | null; confidence: number }) {
+  if (!score) return null
+
+  const rankRange = score.rankLow === score.rankHigh ? "" : ` (#${score.rankLow}–${score.rankHigh})`
+  const percent = Math.round(confidence * 100)
+  return (
+    <Text
+      fontSize="xs"
+      color="gray.500"
+      textAlign="right"
+      whiteSpace="nowrap"
+      title={`Bradley–Terry fit of all votes: ${Math.round(score.rating)}, ${percent}% interval ${Math.round(score.ratingLow)}–${Math.round(score.ratingHigh)}`}
+    >
+      BT #{score.rank}{rankRange} · {Math.round(score.rating)}
+    </Text>
+  )
+}
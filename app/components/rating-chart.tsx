@@ -0,0 +1,42 @@
+import { Box, Text } from "@chakra-ui/react"
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 8
+
+// Lightweight SVG line chart of a rating over successive matches
+export function RatingChart({ points }: { points: { rating: number; at: string }[] }) {
+  if (points.length < 2) {
+    return (
+      <Text color="gray.400" fontSize="sm">
+        Not enough votes yet to chart a rating history.
+      </Text>
+    )
+  }
+
+  const ratings = points.map(point => point.rating)
+  const min = Math.min(...ratings)
+  const max = Math.max(...ratings)
+  const range = max - min || 1
+
+  const coordinates = points.map((point, index) => {
+    const x = PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2)
+    const y = PADDING + (1 - (point.rating - min) / range) * (HEIGHT - PADDING * 2)
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  return (
+    <Box w="full">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label="Rating over time">
+        <polyline points={coordinates.join(" ")} fill="none" stroke="#63b3ed" strokeWidth="2" strokeLinejoin="round" />
+      </svg>
+      <Box display="flex" justifyContent="space-between" fontSize="xs" color="gray.400">
+        <Text>{new Date(points[0].at).toLocaleDateString()}</Text>
+        <Text>
+          {Math.round(min)} – {Math.round(max)} Elo
+        </Text>
+        <Text>{new Date(points[points.length - 1].at).toLocaleDateString()}</Text>
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,11 @@
+import { Text } from "@chakra-ui/react"
+
+// Vote count plus the engine's deviation, so images with a handful of votes stand out from established ones
+export function RatingUncertainty({ image }: { image: { deviation: number | null; matchCount: number } }) {
+  return (
+    <Text fontSize="xs" color="gray.400" textAlign="right" whiteSpace="nowrap">
+      {image.deviation !== null && `±${Math.round(image.deviation)} · `}
+      {image.matchCount} {image.matchCount === 1 ? "vote" : "votes"}
+    </Text>
+  )
+}
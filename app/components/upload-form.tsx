@@ -0,0 +1,43 @@
+import { Box, Button, HStack, Text, VStack } from "@chakra-ui/react"
+import { Form, useNavigation } from "react-router"
+
+type UploadResult =
+  | { file: string; ok: true; imageId: number; url: string }
+  | { file: string; ok: false; error: string }
+
+// Multi-file upload form with a per-file result list
+export function UploadForm({ results, error, children }: { results?: UploadResult[]; error?: string; children?: React.ReactNode }) {
+  const navigation = useNavigation()
+  const uploading = navigation.state === "submitting"
+
+  return (
+    <VStack gap="6" align="stretch">
+      <Form method="post" encType="multipart/form-data">
+        <VStack gap="4" align="stretch">
+          {children}
+          <Box p="6" borderWidth="2px" borderStyle="dashed" borderColor="gray.600" borderRadius="lg">
+            <input type="file" name="files" accept="image/*" multiple required style={{ color: "white" }} />
+          </Box>
+          <Button type="submit" colorPalette="blue" loading={uploading} loadingText="Optimizing...">
+            Upload
+          </Button>
+        </VStack>
+      </Form>
+
+      {error && <Text color="red.400">{error}</Text>}
+
+      {results && results.length > 0 && (
+        <VStack gap="2" align="stretch">
+          {results.map((result, index) => (
+            <HStack key={index} justifyContent="space-between" p="3" borderWidth="1px" borderColor="gray.600" borderRadius="md" bg="gray.800">
+              <Text color="gray.200" truncate>{result.file}</Text>
+              {result.ok
+                ? <Text color="green.400" fontSize="sm">Added</Text>
+                : <Text color="red.400" fontSize="sm">{result.error}</Text>}
+            </HStack>
+          ))}
+        </VStack>
+      )}
+    </VStack>
+  )
+}
@@ -0,0 +1,80 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { redirect } from "react-router"
+import { adminSessionStorage } from "~/sessions.server"
+
+// The admin area is protected by a single shared password. Without ADMIN_PASSWORD it is disabled entirely, and
+// also without SESSION_SECRET: the admin cookie is signed with it, and the built-in fallback is public.
+
+let warnedAboutSecret = false
+
+export function isAdminEnabled() {
+    if (!process.env.ADMIN_PASSWORD) return false
+    if (!process.env.SESSION_SECRET) {
+        if (!warnedAboutSecret) {
+            console.warn("ADMIN_PASSWORD is set but SESSION_SECRET isn't; the admin area stays disabled")
+            warnedAboutSecret = true
+        }
+        return false
+    }
+    return true
+}
+
+// Stored in the admin cookie so changing ADMIN_PASSWORD signs everyone out
+function passwordFingerprint() {
+    return createHmac("sha256", process.env.SESSION_SECRET!).update(process.env.ADMIN_PASSWORD!).digest("base64url")
+}
+
+export function checkAdminPassword(password: unknown) {
+    const expected = process.env.ADMIN_PASSWORD
+    if (!isAdminEnabled() || !expected || typeof password !== "string") return false
+
+    const a = Buffer.from(password)
+    const b = Buffer.from(expected)
+    return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export async function isAdmin(request: Request) {
+    if (!isAdminEnabled()) return false
+
+    const session = await adminSessionStorage.getSession(request.headers.get("Cookie"))
+    const fingerprint = session.get("admin")
+    if (typeof fingerprint !== "string") return false
+
+    const a = Buffer.from(fingerprint)
+    const b = Buffer.from(passwordFingerprint())
+    return a.length === b.length && timingSafeEqual(a, b)
+}
+
+// Redirects to the login page unless the request comes from a signed-in admin
+export async function requireAdmin(request: Request) {
+    if (!isAdminEnabled()) {
+        throw new Response("Not Found", { status: 404 })
+    }
+
+    if (!(await isAdmin(request))) {
+        const url = new URL(request.url)
+        throw redirect(`/admin/login?redirectTo=${encodeURIComponent(url.pathname + url.search)}`)
+    }
+}
+
+export async function createAdminSession(redirectTo: string) {
+    const session = await adminSessionStorage.getSession()
+    session.set("admin", passwordFingerprint())
+
+    return redirect(redirectTo, {
+        headers: { "Set-Cookie": await adminSessionStorage.commitSession(session) }
+    })
+}
+
+export async function destroyAdminSession(request: Request) {
+    const session = await adminSessionStorage.getSession(request.headers.get("Cookie"))
+
+    return redirect("/admin/login", {
+        headers: { "Set-Cookie": await adminSessionStorage.destroySession(session) }
+    })
+}
+
+// Only allow redirects back into the admin area
+export function safeAdminRedirect(value: unknown) {
+    return typeof value === "string" && value.startsWith("/admin") && !value.startsWith("//") ? value : "/admin"
+}
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from "crypto"
+
+export const API_KEY_PREFIX_LENGTH = 12
+
+export function generateApiKey() {
+    return `elo_${randomBytes(32).toString("base64url")}`
+}
+
+export function hashApiKey(key: string) {
+    return createHash("sha256").update(key).digest("hex")
+}
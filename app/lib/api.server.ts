@@ -0,0 +1,99 @@
+import { db } from "~/db.server"
+import { hashApiKey } from "~/lib/api-keys.server"
+import { RateLimitError, rateLimitHeaders } from "~/lib/rate-limit"
+import { VoteError } from "~/lib/voting.server"
+
+// Helpers for the versioned JSON API under /api/v1. Every error is returned as { error: { code, message } }.
+
+export function apiError(status: number, code: string, message: string, init?: ResponseInit) {
+    return Response.json({ error: { code, message } }, { ...init, status })
+}
+
+const codesByStatus: Record<number, string> = {
+    400: "invalid_request",
+    401: "unauthorized",
+    404: "not_found",
+    405: "method_not_allowed",
+    409: "conflict",
+    429: "rate_limited"
+}
+
+// Runs an API handler, turning anything it throws into a JSON error body
+export async function handleApiRequest(handler: () => Promise<Response>) {
+    try {
+        return await handler()
+    } catch (error) {
+        if (error instanceof VoteError) {
+            return apiError(error.status, error.code, error.message, { headers: error.headers })
+        }
+
+        if (error instanceof RateLimitError) {
+            return apiError(429, "rate_limited", error.message, { headers: rateLimitHeaders(error.decision) })
+        }
+
+        if (error instanceof Response) {
+            // Already a JSON API error
+            if (error.headers.get("Content-Type")?.includes("application/json")) {
+                return error
+            }
+            const message = await error.text()
+            return apiError(error.status, codesByStatus[error.status] ?? "error", message || error.statusText)
+        }
+
+        console.error("API error:", error)
+        return apiError(500, "internal_error", "Something went wrong. Please try again.")
+    }
+}
+
+export function methodNotAllowed(allowed: string) {
+    return apiError(405, "method_not_allowed", `Use ${allowed} for this endpoint`, { headers: { Allow: allowed } })
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+export async function requireApiKey(request: Request) {
+    const authorization = request.headers.get("Authorization")
+    const key = authorization?.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length).trim()
+        : request.headers.get("X-API-Key")
+
+    if (!key) {
+        throw apiError(401, "unauthorized", "Missing API key")
+    }
+
+    const apiKey = await db.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        select: { id: true, name: true, lastUsedAt: true, revokedAt: true }
+    })
+
+    if (!apiKey || apiKey.revokedAt) {
+        throw apiError(401, "unauthorized", "Invalid or revoked API key")
+    }
+
+    // Record usage at most once a minute to keep writes off the hot path
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > 60 * 1000) {
+        db.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+            .catch(error => console.error("Failed to record API key usage:", error))
+    }
+
+    return { id: apiKey.id, name: apiKey.name }
+}
+
+// API clients vote as their key; a client serving several people (e.g. a chat bot) can tell them apart with X-Voter-Id.
+// The voter id is only ever part of a session under the key, so one key's voters can't pass for another's, and all
+// of them together stay within the key's own vote limit.
+export function apiSessionId(apiKey: { id: number }, request: Request) {
+    const voterId = request.headers.get("X-Voter-Id")?.slice(0, 100)
+    return voterId ? `api:${apiKey.id}:${voterId}` : `api:${apiKey.id}`
+}
+
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+    try {
+        const body = await request.json()
+        if (body && typeof body === "object" && !Array.isArray(body)) {
+            return body
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw apiError(400, "invalid_request", "Request body must be a JSON object")
+}
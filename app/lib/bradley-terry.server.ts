@@ -0,0 +1,97 @@
+import type { PrismaClient } from "@prisma/client"
+import { notifyLeaderboardChanged } from "./live-updates/notify"
+import { rankBradleyTerry, type BradleyTerryOptions, type Comparison } from "./bradley-terry"
+
+// Batch Bradley–Terry rankings stored next to the live ratings. Fits are run by `npm run bradley-terry` (from cron,
+// say) and only the newest ones are kept.
+
+const RUNS_KEPT = 10
+const INSERT_CHUNK_SIZE = 1000
+
+// Fits one collection's votes between its visible images and stores the result
+export async function runBradleyTerry(prisma: PrismaClient, collectionId: number, options: Partial<Pick<BradleyTerryOptions, "samples" | "seed" | "confidence">> = {}) {
+    const images = await prisma.image.findMany({
+        where: { collectionId, hiddenAt: null },
+        select: { id: true },
+        orderBy: { id: "asc" }
+    })
+    const indexes = new Map(images.map((image, i) => [image.id, i]))
+
+    // Identical votes are grouped, which is all the fit and the resampling need
+    const groups = await prisma.$queryRaw<{ winnerId: number, loserId: number, draw: boolean, count: bigint, weight: number }[]>`
+        SELECT m."winnerId", m."loserId", m."outcome" = 'DRAW' AS draw, COUNT(*) AS count, SUM(m."weight") AS weight
+        FROM "Match" m
+        JOIN "Image" w ON w."id" = m."winnerId"
+        JOIN "Image" l ON l."id" = m."loserId"
+        WHERE w."collectionId" = ${collectionId} AND w."hiddenAt" IS NULL AND l."hiddenAt" IS NULL
+            AND m."outcome" <> 'SKIP' AND m."weight" > 0
+        GROUP BY 1, 2, 3`
+    const comparisons: Comparison[] = groups.map(group => ({
+        winner: indexes.get(group.winnerId)!,
+        loser: indexes.get(group.loserId)!,
+        draw: group.draw,
+        count: Number(group.count),
+        weight: group.weight
+    }))
+
+    const result = rankBradleyTerry(images.length, comparisons, options)
+    const voteCount = comparisons.reduce((sum, comparison) => sum + comparison.count, 0)
+    const scores = images.map((image, i) => ({
+        imageId: image.id,
+        rank: result.ranks[i],
+        rating: result.ratings[i],
+        ratingLow: result.ratingLow[i],
+        ratingHigh: result.ratingHigh[i],
+        rankLow: result.rankLow[i],
+        rankHigh: result.rankHigh[i]
+    }))
+
+    const stored = await prisma.$transaction(async tx => {
+        const run = await tx.bradleyTerryRun.create({
+            data: {
+                collectionId,
+                voteCount,
+                samples: result.samples,
+                confidence: result.confidence,
+                iterations: result.iterations
+            }
+        })
+        for (let i = 0; i < scores.length; i += INSERT_CHUNK_SIZE) {
+            await tx.bradleyTerryScore.createMany({ data: scores.slice(i, i + INSERT_CHUNK_SIZE).map(score => ({ runId: run.id, ...score })) })
+        }
+
+        const stale = await tx.bradleyTerryRun.findMany({
+            where: { collectionId },
+            select: { id: true },
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            skip: RUNS_KEPT
+        })
+        await tx.bradleyTerryRun.deleteMany({ where: { id: { in: stale.map(old => old.id) } } })
+
+        return { ...run, imageCount: images.length, top: scores.filter(score => score.rank <= 10).sort((a, b) => a.rank - b.rank) }
+    }, { timeout: 60_000 })
+
+    // Leaderboards show each image's place in the newest fit
+    await notifyLeaderboardChanged(prisma, collectionId)
+    return stored
+}
+
+// The newest fit of a collection and the given images' places in it. Images missing from it were added (or
+// restored) since; null when the collection hasn't been fitted yet.
+export async function getBradleyTerryScores(prisma: PrismaClient, collectionId: number, imageIds: number[]) {
+    const run = await prisma.bradleyTerryRun.findFirst({
+        where: { collectionId },
+        select: { id: true, createdAt: true, voteCount: true, confidence: true },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }]
+    })
+    if (!run) return null
+
+    const scores = await prisma.bradleyTerryScore.findMany({
+        where: { runId: run.id, imageId: { in: imageIds } },
+        select: { imageId: true, rank: true, rating: true, ratingLow: true, ratingHigh: true, rankLow: true, rankHigh: true }
+    })
+    return {
+        run: { fittedAt: run.createdAt, voteCount: run.voteCount, confidence: run.confidence },
+        scores: new Map(scores.map(({ imageId, ...score }) => [imageId, score]))
+    }
+}
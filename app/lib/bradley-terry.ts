@@ -0,0 +1,206 @@
+// Batch Bradley–Terry ranking: every image gets a strength p, and an image beats another with probability
+// p_a / (p_a + p_b). Unlike the online rating engines the fit uses all votes at once, so the order they were cast in
+// doesn't matter, and bootstrap resampling of the votes gives each image a confidence interval.
+
+// Strengths are reported on the Elo scale: 400 points is 10:1 odds, and BASE_RATING is an image without votes
+export const BASE_RATING = 1200
+
+export interface Comparison {
+    // Indexes of the images; for draws the order doesn't matter
+    winner: number
+    loser: number
+    draw: boolean
+    // Number of identical votes and their total weight (down-weighted sessions' votes count for less)
+    count: number
+    weight: number
+}
+
+export interface BradleyTerryOptions {
+    // Bootstrap resamples behind the confidence intervals
+    samples: number
+    // Coverage of the confidence intervals, e.g. 0.95
+    confidence: number
+    // Seed for the resampling, so a run can be reproduced
+    seed: number
+    // Every image is given this many virtual draws against a BASE_RATING opponent, which keeps the strengths of
+    // unbeaten, winless and unconnected images finite and pulls images with few votes towards the middle
+    priorGames: number
+    maxIterations: number
+    // Stop once no log-strength changes by more than this in an iteration
+    tolerance: number
+}
+
+export const defaultBradleyTerryOptions: BradleyTerryOptions = {
+    samples: 200,
+    confidence: 0.95,
+    seed: 1,
+    priorGames: 1,
+    maxIterations: 10_000,
+    tolerance: 1e-7
+}
+
+export interface BradleyTerryResult {
+    // Per image, in the order of the indexes used in the comparisons
+    ratings: number[]
+    ranks: number[]
+    ratingLow: number[]
+    ratingHigh: number[]
+    // Best and worst rank within the confidence interval
+    rankLow: number[]
+    rankHigh: number[]
+    samples: number
+    confidence: number
+    // Iterations the full fit took to converge
+    iterations: number
+}
+
+// Votes only fix the strengths relative to each other, and a prior of a game or two barely pins down their common
+// scale, so MM alone would crawl along it. Scales all strengths by the factor that's most likely under the prior:
+// the one that gives every image an expected half a win against the virtual opponent on average.
+function rescale(strengths: Float64Array) {
+    let logScale = 0
+    for (let step = 0; step < 50; step++) {
+        let expected = 0
+        let slope = 0
+        for (const strength of strengths) {
+            const win = strength * Math.exp(logScale) / (strength * Math.exp(logScale) + 1)
+            expected += win
+            slope += win * (1 - win)
+        }
+        const change = (strengths.length / 2 - expected) / slope
+        logScale += change
+        if (!Number.isFinite(logScale)) return strengths
+        if (Math.abs(change) < 1e-12) break
+    }
+    const scale = Math.exp(logScale)
+    return strengths.map(strength => strength * scale)
+}
+
+// Maximum likelihood strengths by minorization–maximization (Hunter 2004), optionally starting from an earlier fit
+function fitStrengths(itemCount: number, comparisons: Comparison[], weights: number[], options: BradleyTerryOptions, start?: Float64Array) {
+    const wins = new Float64Array(itemCount).fill(options.priorGames / 2)
+    comparisons.forEach((comparison, i) => {
+        if (comparison.draw) {
+            wins[comparison.winner] += weights[i] / 2
+            wins[comparison.loser] += weights[i] / 2
+        } else {
+            wins[comparison.winner] += weights[i]
+        }
+    })
+
+    let strengths = start ? Float64Array.from(start) : new Float64Array(itemCount).fill(1)
+    let iterations = 0
+    while (iterations < options.maxIterations) {
+        iterations++
+        // The virtual opponent has strength 1
+        const denominators = strengths.map(strength => options.priorGames / (strength + 1))
+        comparisons.forEach((comparison, i) => {
+            const share = weights[i] / (strengths[comparison.winner] + strengths[comparison.loser])
+            denominators[comparison.winner] += share
+            denominators[comparison.loser] += share
+        })
+
+        const next = rescale(strengths.map((_, i) => wins[i] / denominators[i]))
+        let largestChange = 0
+        next.forEach((updated, i) => {
+            largestChange = Math.max(largestChange, Math.abs(Math.log(updated / strengths[i])))
+        })
+        strengths = next
+        if (largestChange < options.tolerance) break
+    }
+
+    return { strengths, iterations }
+}
+
+function toRating(strength: number) {
+    return BASE_RATING + 400 * Math.log10(strength)
+}
+
+// Competition ranks ("1224"), highest rating first
+function rankOf(ratings: ArrayLike<number>) {
+    const order = Array.from(ratings, (rating, index) => ({ rating, index })).sort((a, b) => b.rating - a.rating)
+    const ranks = new Array<number>(ratings.length)
+    order.forEach((item, position) => {
+        ranks[item.index] = position > 0 && item.rating === order[position - 1].rating ? ranks[order[position - 1].index] : position + 1
+    })
+    return ranks
+}
+
+// Small, fast seeded generator (mulberry32)
+function createRandom(seed: number) {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function poisson(random: () => number, mean: number) {
+    if (mean < 30) {
+        // Knuth's method
+        const limit = Math.exp(-mean)
+        let count = 0
+        let product = random()
+        while (product > limit) {
+            count++
+            product *= random()
+        }
+        return count
+    }
+    // Normal approximation, plenty for large counts
+    const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * normal))
+}
+
+function percentile(sorted: number[], fraction: number) {
+    const position = (sorted.length - 1) * fraction
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// Fits the model to all comparisons, then refits it to bootstrap resamples of them for confidence intervals.
+// Resampling is Poissonized: each vote appears Poisson(1) times, so a group of identical votes is redrawn as a
+// single Poisson count instead of vote by vote.
+export function rankBradleyTerry(itemCount: number, comparisons: Comparison[], options: Partial<BradleyTerryOptions> = {}): BradleyTerryResult {
+    const settings = { ...defaultBradleyTerryOptions, ...options }
+    const fit = fitStrengths(itemCount, comparisons, comparisons.map(comparison => comparison.weight), settings)
+    const ratings = Array.from(fit.strengths, toRating)
+
+    const random = createRandom(settings.seed)
+    const sampledRatings = Array.from({ length: itemCount }, () => new Array<number>(settings.samples))
+    const sampledRanks = Array.from({ length: itemCount }, () => new Array<number>(settings.samples))
+    for (let sample = 0; sample < settings.samples; sample++) {
+        const weights = comparisons.map(comparison => poisson(random, comparison.count) * comparison.weight / comparison.count)
+        const resampled = Array.from(fitStrengths(itemCount, comparisons, weights, settings, fit.strengths).strengths, toRating)
+        rankOf(resampled).forEach((rank, i) => {
+            sampledRatings[i][sample] = resampled[i]
+            sampledRanks[i][sample] = rank
+        })
+    }
+
+    const tail = (1 - settings.confidence) / 2
+    const interval = (values: number[], fallback: number) => {
+        if (values.length === 0) return [fallback, fallback]
+        const sorted = [...values].sort((a, b) => a - b)
+        return [percentile(sorted, tail), percentile(sorted, 1 - tail)]
+    }
+    const ranks = rankOf(ratings)
+    const ratingIntervals = sampledRatings.map((values, i) => interval(values, ratings[i]))
+    const rankIntervals = sampledRanks.map((values, i) => interval(values, ranks[i]))
+
+    return {
+        ratings,
+        ranks,
+        ratingLow: ratingIntervals.map(([low]) => low),
+        ratingHigh: ratingIntervals.map(([, high]) => high),
+        rankLow: rankIntervals.map(([low]) => Math.round(low)),
+        rankHigh: rankIntervals.map(([, high]) => Math.round(high)),
+        samples: settings.samples,
+        confidence: settings.confidence,
+        iterations: fit.iterations
+    }
+}
@@ -0,0 +1,49 @@
+import { db } from "~/db.server"
+
+// Every image belongs to a collection (a contest with its own pairing and leaderboard).
+// The default collection is also served from the root routes ("/", "/compare").
+
+export const DEFAULT_COLLECTION_SLUG = process.env.DEFAULT_COLLECTION_SLUG || "default"
+
+export type CollectionSummary = {
+    id: number
+    slug: string
+    name: string
+}
+
+// Resolves the collection from the route's :slug param, falling back to the default collection
+export async function getCollection(slug: string | undefined): Promise<CollectionSummary> {
+    const collection = await db.collection.findUnique({
+        where: { slug: slug ?? DEFAULT_COLLECTION_SLUG },
+        select: { id: true, slug: true, name: true }
+    })
+
+    if (!collection) {
+        throw new Response("Collection not found", { status: 404 })
+    }
+
+    return collection
+}
+
+export function listCollections() {
+    return db.collection.findMany({
+        select: { id: true, slug: true, name: true },
+        orderBy: { name: "asc" }
+    })
+}
+
+// Links between a collection's pages, returned by loaders so components don't need to know about the default
+export function collectionPaths(collection: { slug: string }) {
+    const base = `/c/${collection.slug}`
+    const isDefault = collection.slug === DEFAULT_COLLECTION_SLUG
+
+    return {
+        home: isDefault ? "/" : base,
+        compare: isDefault ? "/compare" : `${base}/compare`,
+        leaderboard: isDefault ? "/leaderboard" : `${base}/leaderboard`,
+        live: isDefault ? "/leaderboard/live" : `${base}/leaderboard/live`,
+        me: isDefault ? "/me" : `${base}/me`,
+        movers: isDefault ? "/movers" : `${base}/movers`,
+        stats: isDefault ? "/stats" : `${base}/stats`
+    }
+}
@@ -0,0 +1,68 @@
+// CSV reading and writing for manifests, exports and imports
+
+// Minimal RFC 4180 parser: quoted fields, doubled quotes, commas and newlines inside quotes
+function parseCsv(text: string) {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === ",") {
+            row.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ""))
+}
+
+// Rows of a CSV file with a header row, as objects keyed by the (trimmed) column names. A leading BOM is ignored.
+export function csvRecords(text: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""))
+    if (!header) return []
+    const columns = header.map(column => column.trim())
+    return rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""])))
+}
+
+// Spreadsheets run text fields starting with one of these as a formula, so csvLine prefixes them with a quote (and
+// text that already looks quoted that way gets one more, so csvText can always take exactly one off)
+const FORMULA_START = /^'*[=+\-@\t\r]/
+
+// One CSV line. Nulls become empty fields and dates are written as ISO timestamps. Text that a spreadsheet would
+// take for a formula (image names come from public uploads) is prefixed with ', which csvText takes off again.
+export function csvLine(values: unknown[]) {
+    return values.map(value => {
+        let text = value === null || value === undefined ? "" : value instanceof Date ? value.toISOString() : String(value)
+        if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(",") + "\r\n"
+}
+
+// A field as it was before csvLine protected it from being run as a formula
+export function csvText(field: string) {
+    return field.startsWith("'") && FORMULA_START.test(field) ? field.slice(1) : field
+}
@@ -0,0 +1,237 @@
+import { Prisma, type PrismaClient } from "@prisma/client"
+import { csvLine } from "./csv"
+
+// Streams the ranked image list and the raw vote history as CSV, JSON or NDJSON. Used by the admin export routes
+// and `npm run export`; `npm run import` reads the same files back.
+
+export type ExportFormat = "csv" | "json" | "ndjson"
+export type ExportDataset = "rankings" | "votes"
+
+export const exportFormats: ExportFormat[] = ["csv", "json", "ndjson"]
+export const exportDatasets: ExportDataset[] = ["rankings", "votes"]
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+    return exportFormats.includes(value as ExportFormat)
+}
+
+export function isExportDataset(value: unknown): value is ExportDataset {
+    return exportDatasets.includes(value as ExportDataset)
+}
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    json: "application/json; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8"
+}
+
+export interface ExportFilters {
+    collectionId?: number
+    // Votes cast from `from` (inclusive) up to `to` (exclusive)
+    from?: Date
+    to?: Date
+    // Also list hidden images, unranked, after the visible ones
+    includeHidden?: boolean
+}
+
+export const rankingColumns = [
+    "collection", "rank", "id", "name", "url", "rating", "deviation", "volatility", "votes", "wins", "losses", "draws", "hidden"
+] as const
+
+export const voteColumns = [
+    "id", "createdAt", "collection", "outcome", "winnerUrl", "winnerName", "loserUrl", "loserName",
+    "winnerRatingBefore", "winnerRatingAfter", "loserRatingBefore", "loserRatingAfter",
+    "weight", "sessionId", "winnerSide", "decisionMs"
+] as const
+
+export type RankingRow = Record<typeof rankingColumns[number], unknown>
+export type VoteRow = Record<typeof voteColumns[number], unknown>
+
+const BATCH_SIZE = 1000
+// Longest the reads behind a rankings export may keep their snapshot open
+const SNAPSHOT_TIMEOUT_MS = 60_000
+
+// Wins, losses and draws of a batch of images
+async function records(prisma: Prisma.TransactionClient, ids: number[]) {
+    const [wins, losses, draws] = await Promise.all([
+        prisma.match.groupBy({ by: ["winnerId"], where: { winnerId: { in: ids }, outcome: "WIN" }, _count: { _all: true } }),
+        prisma.match.groupBy({ by: ["loserId"], where: { loserId: { in: ids }, outcome: "WIN" }, _count: { _all: true } }),
+        prisma.$queryRaw<{ id: number, draws: bigint }[]>`
+            SELECT id, COUNT(*) AS draws FROM (
+                SELECT "winnerId" AS id FROM "Match" WHERE "outcome" = 'DRAW' AND "winnerId" IN (${Prisma.join(ids)})
+                UNION ALL
+                SELECT "loserId" FROM "Match" WHERE "outcome" = 'DRAW' AND "loserId" IN (${Prisma.join(ids)})
+            ) AS draws
+            GROUP BY id`
+    ])
+    return {
+        wins: new Map(wins.map(row => [row.winnerId, row._count._all])),
+        losses: new Map(losses.map(row => [row.loserId, row._count._all])),
+        draws: new Map(draws.map(row => [row.id, Number(row.draws)]))
+    }
+}
+
+const rankingSelect = {
+    id: true,
+    collectionId: true,
+    name: true,
+    url: true,
+    elo: true,
+    deviation: true,
+    volatility: true,
+    matchCount: true,
+    hiddenAt: true,
+    collection: { select: { slug: true } }
+} as const
+
+// Images by collection and rating, best first. Ranks restart in every collection and tied ratings share a rank,
+// as on the leaderboard. Ratings change with every vote, so the pages are read from one REPEATABLE READ snapshot;
+// otherwise an image could move across a page boundary mid-export and be skipped or listed twice. The rows are
+// buffered, so the snapshot is held for as long as the reads take rather than for the whole download.
+export async function* rankingRows(prisma: PrismaClient, filters: ExportFilters = {}): AsyncGenerator<RankingRow> {
+    const rows = await prisma.$transaction(async tx => {
+        const rows: RankingRow[] = []
+        for await (const row of rankingPages(tx, filters)) rows.push(row)
+        return rows
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: SNAPSHOT_TIMEOUT_MS })
+    yield* rows
+}
+
+async function* rankingPages(prisma: Prisma.TransactionClient, filters: ExportFilters): AsyncGenerator<RankingRow> {
+    for (const hidden of filters.includeHidden ? [false, true] : [false]) {
+        const where: Prisma.ImageWhereInput = {
+            hiddenAt: hidden ? { not: null } : null,
+            ...(filters.collectionId !== undefined && { collectionId: filters.collectionId })
+        }
+
+        let last: { collectionId: number, elo: number, id: number } | undefined
+        let position = 0
+        let rank = 0
+        let previous: { collectionId: number, elo: number } | undefined
+
+        while (true) {
+            const images = await prisma.image.findMany({
+                where: last ? {
+                    ...where,
+                    OR: [
+                        { collectionId: { gt: last.collectionId } },
+                        { collectionId: last.collectionId, elo: { lt: last.elo } },
+                        { collectionId: last.collectionId, elo: last.elo, id: { gt: last.id } }
+                    ]
+                } : where,
+                orderBy: [{ collectionId: "asc" }, { elo: "desc" }, { id: "asc" }],
+                take: BATCH_SIZE,
+                select: rankingSelect
+            })
+            if (images.length === 0) break
+
+            const { wins, losses, draws } = await records(prisma, images.map(image => image.id))
+            for (const image of images) {
+                if (previous?.collectionId !== image.collectionId) position = 0
+                position++
+                if (previous?.collectionId !== image.collectionId || previous.elo !== image.elo) rank = position
+                previous = image
+
+                yield {
+                    collection: image.collection.slug,
+                    rank: hidden ? null : rank,
+                    id: image.id,
+                    name: image.name,
+                    url: image.url,
+                    rating: image.elo,
+                    deviation: image.deviation,
+                    volatility: image.volatility,
+                    votes: image.matchCount,
+                    wins: wins.get(image.id) ?? 0,
+                    losses: losses.get(image.id) ?? 0,
+                    draws: draws.get(image.id) ?? 0,
+                    hidden: image.hiddenAt !== null
+                }
+            }
+
+            if (images.length < BATCH_SIZE) break
+            last = images[images.length - 1]
+        }
+    }
+}
+
+const imageSelect = { name: true, url: true, collection: { select: { slug: true } } } as const
+
+// Every recorded match, skips included, oldest first. Votes cast while the export runs are left out, so it ends
+// at the newest vote there was when it started.
+export async function* voteRows(prisma: PrismaClient, filters: ExportFilters = {}): AsyncGenerator<VoteRow> {
+    const newest = await prisma.match.aggregate({ _max: { id: true } })
+    if (newest._max.id === null) return
+
+    const where: Prisma.MatchWhereInput = {
+        id: { lte: newest._max.id },
+        ...(filters.collectionId !== undefined && { winner: { collectionId: filters.collectionId } }),
+        ...((filters.from || filters.to) && { createdAt: { gte: filters.from, lt: filters.to } })
+    }
+
+    let cursor: number | undefined
+    while (true) {
+        const matches = await prisma.match.findMany({
+            where,
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            include: { winner: { select: imageSelect }, loser: { select: imageSelect } }
+        })
+
+        for (const match of matches) {
+            yield {
+                id: match.id,
+                createdAt: match.createdAt,
+                collection: match.winner.collection.slug,
+                outcome: match.outcome,
+                winnerUrl: match.winner.url,
+                winnerName: match.winner.name,
+                loserUrl: match.loser.url,
+                loserName: match.loser.name,
+                winnerRatingBefore: match.winnerEloBefore,
+                winnerRatingAfter: match.winnerEloAfter,
+                loserRatingBefore: match.loserEloBefore,
+                loserRatingAfter: match.loserEloAfter,
+                weight: match.weight,
+                sessionId: match.sessionId,
+                winnerSide: match.winnerSide,
+                decisionMs: match.decisionMs
+            }
+        }
+
+        if (matches.length < BATCH_SIZE) break
+        cursor = matches[matches.length - 1].id
+    }
+}
+
+// Turns rows into the text of an export, a chunk at a time
+export async function* serializeRows<T extends Record<string, unknown>>(
+    rows: AsyncIterable<T>,
+    columns: readonly (keyof T & string)[],
+    format: ExportFormat
+): AsyncGenerator<string> {
+    if (format === "csv") {
+        yield csvLine([...columns])
+        for await (const row of rows) yield csvLine(columns.map(column => row[column]))
+        return
+    }
+
+    if (format === "ndjson") {
+        for await (const row of rows) yield JSON.stringify(row) + "\n"
+        return
+    }
+
+    let first = true
+    yield "["
+    for await (const row of rows) {
+        yield (first ? "\n" : ",\n") + JSON.stringify(row)
+        first = false
+    }
+    yield first ? "]\n" : "\n]\n"
+}
+
+export function exportRows(prisma: PrismaClient, dataset: ExportDataset, format: ExportFormat, filters: ExportFilters) {
+    return dataset === "rankings"
+        ? serializeRows(rankingRows(prisma, filters), rankingColumns, format)
+        : serializeRows(voteRows(prisma, filters), voteColumns, format)
+}
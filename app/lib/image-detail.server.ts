@@ -0,0 +1,86 @@
+import { db } from "~/db.server"
+import { getBradleyTerryScores } from "~/lib/bradley-terry.server"
+import { visibleImage } from "~/lib/images.server"
+
+const MAX_CHART_POINTS = 300
+const HEAD_TO_HEAD_LIMIT = 10
+
+// Everything shown about one image: rank, record, rating history and most frequent opponents.
+// Returns null when the image doesn't exist.
+export async function getImageDetail(id: number) {
+    const image = await db.image.findFirst({
+        where: { id, ...visibleImage },
+        select: {
+            id: true,
+            name: true,
+            url: true,
+            elo: true,
+            deviation: true,
+            matchCount: true,
+            collection: { select: { id: true, slug: true, name: true } }
+        }
+    })
+
+    if (!image) {
+        return null
+    }
+
+    const [higherRated, totalImages, wins, losses, draws, history, winsByOpponent, lossesByOpponent, bradleyTerry] = await Promise.all([
+        db.image.count({ where: { collectionId: image.collection.id, elo: { gt: image.elo }, ...visibleImage } }),
+        db.image.count({ where: { collectionId: image.collection.id, ...visibleImage } }),
+        db.match.count({ where: { winnerId: id, outcome: "WIN" } }),
+        db.match.count({ where: { loserId: id, outcome: "WIN" } }),
+        db.match.count({ where: { OR: [{ winnerId: id }, { loserId: id }], outcome: "DRAW" } }),
+        // Skips don't change ratings, so they'd only add flat steps to the chart
+        db.match.findMany({
+            where: { OR: [{ winnerId: id }, { loserId: id }], outcome: { not: "SKIP" } },
+            select: { winnerId: true, winnerEloAfter: true, loserEloAfter: true, winnerReplayAfter: true, loserReplayAfter: true, createdAt: true },
+            orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+        }),
+        db.match.groupBy({ by: ["loserId"], where: { winnerId: id, outcome: "WIN" }, _count: { _all: true } }),
+        db.match.groupBy({ by: ["winnerId"], where: { loserId: id, outcome: "WIN" }, _count: { _all: true } }),
+        getBradleyTerryScores(db, image.collection.id, [id])
+    ])
+
+    // Rating after each match (as replayed, if it has been), thinned out evenly for long histories
+    const step = Math.ceil(history.length / MAX_CHART_POINTS)
+    const ratingHistory = history
+        .filter((_, index) => index % step === 0 || index === history.length - 1)
+        .map(match => ({
+            rating: match.winnerId === id ? match.winnerReplayAfter ?? match.winnerEloAfter : match.loserReplayAfter ?? match.loserEloAfter,
+            at: match.createdAt.toISOString()
+        }))
+
+    // Record against the opponents this image has faced most often
+    const records = new Map<number, { wins: number, losses: number }>()
+    for (const row of winsByOpponent) {
+        records.set(row.loserId, { wins: row._count._all, losses: 0 })
+    }
+    for (const row of lossesByOpponent) {
+        const record = records.get(row.winnerId) ?? { wins: 0, losses: 0 }
+        record.losses = row._count._all
+        records.set(row.winnerId, record)
+    }
+    const frequentOpponents = [...records.entries()]
+        .sort(([, a], [, b]) => (b.wins + b.losses) - (a.wins + a.losses))
+        .slice(0, HEAD_TO_HEAD_LIMIT)
+
+    const opponents = await db.image.findMany({
+        where: { id: { in: frequentOpponents.map(([opponentId]) => opponentId) }, ...visibleImage },
+        select: { id: true, name: true, url: true, elo: true }
+    })
+    const opponentsById = new Map(opponents.map(opponent => [opponent.id, opponent]))
+
+    return {
+        image,
+        rank: higherRated + 1,
+        totalImages,
+        record: { wins, losses, draws },
+        // Place in the latest Bradley–Terry fit, null when the image wasn't in it
+        bradleyTerry: bradleyTerry?.scores.has(id) ? { ...bradleyTerry.scores.get(id)!, ...bradleyTerry.run } : null,
+        ratingHistory,
+        headToHead: frequentOpponents
+            .filter(([opponentId]) => opponentsById.has(opponentId))
+            .map(([opponentId, record]) => ({ opponent: opponentsById.get(opponentId)!, ...record }))
+    }
+}
@@ -0,0 +1,191 @@
+import { createHash } from "crypto"
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import sharp from "sharp"
+import {
+    variantFits,
+    variantFormats,
+    variantWidths,
+    type ImageVariant,
+    type VariantFit,
+    type VariantFormat,
+    type VariantWidth
+} from "~/lib/image-variants"
+import { InvalidKeyError, storage, type StoredObject } from "~/lib/storage"
+import { createLocalStorage } from "~/lib/storage/local"
+import { serveStoredFile } from "~/lib/storage/serve"
+
+type OutputFormat = Exclude<VariantFormat, "auto">
+
+// Rendered variants are kept on local disk, evicting the least recently used once the cache is full
+const cacheDir = process.env.IMAGE_CACHE_DIR || path.join(os.tmpdir(), "elo-image-variants")
+const cacheMaxBytes = (Number(process.env.IMAGE_CACHE_MAX_MB) || 512) * 1024 * 1024
+const cacheStorage = createLocalStorage(cacheDir)
+
+// Reads the variant query parameters. Returns null when none are given (serve the original) and
+// throws a 400 for values outside the whitelist.
+export function parseImageVariant(searchParams: URLSearchParams): ImageVariant | null {
+    const w = searchParams.get("w")
+    const fit = searchParams.get("fit")
+    const format = searchParams.get("format")
+    if (w === null && fit === null && format === null) return null
+
+    const width = w === null ? undefined : Number(w) as VariantWidth
+    if (width !== undefined && !variantWidths.includes(width)) {
+        throw new Response(`Unsupported width; use one of ${variantWidths.join(", ")}`, { status: 400 })
+    }
+    if (fit !== null && !variantFits.includes(fit as VariantFit)) {
+        throw new Response(`Unsupported fit; use one of ${variantFits.join(", ")}`, { status: 400 })
+    }
+    if (format !== null && !variantFormats.includes(format as VariantFormat)) {
+        throw new Response(`Unsupported format; use one of ${variantFormats.join(", ")}`, { status: 400 })
+    }
+
+    return { width, fit: (fit ?? "inside") as VariantFit, format: (format ?? "auto") as VariantFormat }
+}
+
+// Picks the smallest format the client says it can display
+export function negotiateFormat(requested: VariantFormat, accept: string | null): OutputFormat {
+    if (requested !== "auto") return requested
+    if (accept?.includes("image/avif")) return "avif"
+    if (accept?.includes("image/webp")) return "webp"
+    return "jpeg"
+}
+
+const extensions: Record<OutputFormat, string> = { avif: ".avif", webp: ".webp", jpeg: ".jpg" }
+
+// Cache files in least-recently-used order (Map keeps insertion order), loaded from disk on first use
+let cacheIndex: Promise<Map<string, number>> | null = null
+let cacheBytes = 0
+const rendering = new Map<string, Promise<void>>()
+
+function loadCacheIndex() {
+    cacheIndex ??= (async () => {
+        await fs.mkdir(cacheDir, { recursive: true })
+        const files = await Promise.all((await fs.readdir(cacheDir))
+            .filter(name => !name.endsWith(".tmp"))
+            .map(async name => ({ name, stats: await fs.stat(path.join(cacheDir, name)) })))
+
+        const index = new Map<string, number>()
+        for (const { name, stats } of files.sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs)) {
+            index.set(name, stats.size)
+            cacheBytes += stats.size
+        }
+        return index
+    })()
+    return cacheIndex
+}
+
+async function evict(index: Map<string, number>) {
+    for (const [name, size] of index) {
+        if (cacheBytes <= cacheMaxBytes) break
+        index.delete(name)
+        cacheBytes -= size
+        await fs.rm(path.join(cacheDir, name), { force: true })
+    }
+}
+
+async function render(key: string, variant: ImageVariant, format: OutputFormat, name: string, index: Map<string, number>) {
+    const input = Buffer.from(await new Response(await storage.read(key)).arrayBuffer())
+
+    let pipeline = sharp(input).rotate()
+    if (variant.width) {
+        pipeline = pipeline.resize({
+            width: variant.width,
+            // Cover crops to a square, as used by the leaderboard thumbnails
+            height: variant.fit === "cover" ? variant.width : undefined,
+            fit: variant.fit,
+            withoutEnlargement: true
+        })
+    }
+    switch (format) {
+        case "avif":
+            pipeline = pipeline.avif({ quality: 50, effort: 2 })
+            break
+        case "webp":
+            pipeline = pipeline.webp({ quality: 80, effort: 4 })
+            break
+        case "jpeg":
+            pipeline = pipeline.jpeg({ quality: 80, mozjpeg: true })
+            break
+    }
+
+    let output: Buffer
+    try {
+        output = await pipeline.toBuffer()
+    } catch {
+        throw new Response("Image could not be resized", { status: 415 })
+    }
+
+    // Write then rename so a concurrent reader never sees a partial file
+    const filePath = path.join(cacheDir, name)
+    await fs.writeFile(`${filePath}.tmp`, output)
+    await fs.rename(`${filePath}.tmp`, filePath)
+
+    index.set(name, output.length)
+    cacheBytes += output.length
+    await evict(index)
+}
+
+// Returns the cache file name for a variant, rendering it first if needed. The source's ETag is part
+// of the name, so replacing an image invalidates its variants.
+async function ensureVariant(key: string, source: StoredObject, variant: ImageVariant, format: OutputFormat) {
+    const name = createHash("sha256")
+        .update([key, source.etag, variant.width ?? "", variant.fit, format].join("\0"))
+        .digest("hex") + extensions[format]
+
+    const index = await loadCacheIndex()
+    const size = index.get(name)
+    if (size !== undefined) {
+        // Move to the most recently used end
+        index.delete(name)
+        index.set(name, size)
+        return name
+    }
+
+    let pending = rendering.get(name)
+    if (!pending) {
+        pending = render(key, variant, format, name, index).finally(() => rendering.delete(name))
+        rendering.set(name, pending)
+    }
+    await pending
+    return name
+}
+
+export async function serveImageVariant(request: Request, key: string, variant: ImageVariant, options: { cacheControl: string }) {
+    let source: StoredObject | null
+    try {
+        source = await storage.stat(key)
+    } catch (error) {
+        if (error instanceof InvalidKeyError) throw new Response("Not Found", { status: 404 })
+        throw error
+    }
+    if (!source) throw new Response("Not Found", { status: 404 })
+
+    const format = negotiateFormat(variant.format, request.headers.get("Accept"))
+    const response = await serveVariantFile(request, await ensureVariant(key, source, variant, format), options)
+        // Evicted (or removed from disk) since ensureVariant found it: render it again
+        ?? await serveVariantFile(request, await ensureVariant(key, source, variant, format), options)
+    if (!response) throw new Response("Not Found", { status: 404 })
+
+    if (variant.format === "auto") response.headers.set("Vary", "Accept")
+    return response
+}
+
+// Serves a cached variant, or returns null and forgets it when the file is gone
+async function serveVariantFile(request: Request, name: string, options: { cacheControl: string }) {
+    try {
+        return await serveStoredFile(request, cacheStorage, name, options)
+    } catch (error) {
+        if (!(error instanceof Response && error.status === 404)) throw error
+
+        const index = await loadCacheIndex()
+        const size = index.get(name)
+        if (size !== undefined) {
+            index.delete(name)
+            cacheBytes -= size
+        }
+        return null
+    }
+}
@@ -0,0 +1,25 @@
+// Resized variants of stored images, requested as `/external-images/<key>?w=150&fit=cover&format=auto`.
+// Shared by the components that build the URLs and the route that renders them.
+
+// Only these widths are rendered, so the endpoint can't be used to fill the cache with arbitrary sizes
+export const variantWidths = [64, 150, 300, 800] as const
+export const variantFits = ["cover", "inside"] as const
+export const variantFormats = ["auto", "avif", "webp", "jpeg"] as const
+
+export type VariantWidth = typeof variantWidths[number]
+export type VariantFit = typeof variantFits[number]
+export type VariantFormat = typeof variantFormats[number]
+
+export interface ImageVariant {
+    width?: VariantWidth
+    fit: VariantFit
+    format: VariantFormat
+}
+
+// URL of a variant; images that aren't served from storage are returned unchanged
+export function imageVariantUrl(url: string, variant: { w: VariantWidth, fit?: VariantFit, format?: VariantFormat }) {
+    if (!url.startsWith("/external-images/")) return url
+
+    const params = new URLSearchParams({ w: String(variant.w), fit: variant.fit ?? "inside", format: variant.format ?? "auto" })
+    return `${url}?${params}`
+}
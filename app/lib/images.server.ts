@@ -0,0 +1,39 @@
+import type { Prisma } from "@prisma/client"
+import sharp from "sharp"
+
+// Hidden images keep their ratings and history but are left out of pairing, leaderboards and the public pages
+export const visibleImage = { hiddenAt: null } satisfies Prisma.ImageWhereInput
+
+// Public URL for a file in image storage (see lib/storage and routes/external-images.$.tsx)
+export function imageUrl(key: string) {
+    return `/external-images/${key.split("/").map(encodeURIComponent).join("/")}`
+}
+
+// Resize to fit 800x600 and convert to WebP for better compression
+export function optimizeImage(input: Buffer | string) {
+    return sharp(input)
+        .resize(800, 600, {
+            fit: "inside",
+            withoutEnlargement: true
+        })
+        .webp({
+            quality: 85,
+            effort: 4
+        })
+        .toBuffer()
+}
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "avif" | "tiff"
+
+// Detects the real format from the file's leading bytes rather than trusting its name or the browser's content type
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+    const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end))
+
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg"
+    if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "png"
+    if (ascii(0, 4) === "GIF8") return "gif"
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp"
+    if (ascii(4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(8, 12))) return "avif"
+    if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "tiff"
+    return null
+}
@@ -0,0 +1,194 @@
+import type { MatchOutcome, MatchSide, Prisma, PrismaClient } from "@prisma/client"
+import fs from "fs/promises"
+import path from "path"
+import { csvRecords, csvText } from "./csv"
+import { notifyLeaderboardChanged } from "./live-updates/notify"
+import { currentRatingEngine } from "./replay.server"
+
+// Loads files written by the rankings and votes exports (lib/export.server.ts) into another database.
+// Collections and images are matched by slug and URL and created when missing; images keep their files'
+// URLs, so the image files themselves need to be copied to the new environment's storage separately.
+
+type ExportRecord = Record<string, unknown>
+
+const BATCH_SIZE = 1000
+// Imports run in one transaction, so a failure leaves nothing behind and the import can simply be run again
+const IMPORT_TIMEOUT_MS = 10 * 60 * 1000
+const matchOutcomes: MatchOutcome[] = ["WIN", "DRAW", "SKIP"]
+const matchSides: MatchSide[] = ["LEFT", "RIGHT"]
+
+// Reads an export in any of its formats, going by the file extension (.csv, .json, .ndjson or .jsonl)
+export async function readExportFile(file: string): Promise<ExportRecord[]> {
+    const text = await fs.readFile(file, "utf8")
+
+    switch (path.extname(file).toLowerCase()) {
+        case ".csv":
+            return csvRecords(text).map(record => Object.fromEntries(Object.entries(record).map(([column, field]) => [column, csvText(field)])))
+        case ".json": {
+            const records: unknown = JSON.parse(text)
+            if (!Array.isArray(records)) throw new Error(`${file}: expected a JSON array`)
+            return records
+        }
+        case ".ndjson":
+        case ".jsonl":
+            return text.split("\n").filter(line => line.trim() !== "").map((line, index) => {
+                try {
+                    return JSON.parse(line)
+                } catch {
+                    throw new Error(`${file} line ${index + 1}: invalid JSON`)
+                }
+            })
+        default:
+            throw new Error(`${file}: expected a .csv, .json or .ndjson file`)
+    }
+}
+
+// CSV fields arrive as strings, JSON ones already typed; empty fields are missing values
+function text(record: ExportRecord, field: string, where: string) {
+    const value = record[field]
+    if (value === null || value === undefined || value === "") throw new Error(`${where}: "${field}" is required`)
+    return String(value)
+}
+
+function number(record: ExportRecord, field: string, where: string): number | null {
+    const value = record[field]
+    if (value === null || value === undefined || value === "") return null
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed)) throw new Error(`${where}: "${field}" must be a number, got "${value}"`)
+    return parsed
+}
+
+function oneOf<T extends string>(record: ExportRecord, field: string, options: T[], where: string): T | null {
+    const value = record[field]
+    if (value === null || value === undefined || value === "") return null
+    if (!options.includes(value as T)) throw new Error(`${where}: "${field}" must be one of ${options.join(", ")}, got "${value}"`)
+    return value as T
+}
+
+async function collectionIds(prisma: Prisma.TransactionClient, slugs: Set<string>) {
+    const ids = new Map<string, number>()
+    for (const slug of slugs) {
+        const collection = await prisma.collection.upsert({
+            where: { slug },
+            create: { slug, name: slug },
+            update: {},
+            select: { id: true }
+        })
+        ids.set(slug, collection.id)
+    }
+    return ids
+}
+
+// Creates the images that don't exist yet (matched by URL) and returns every image's id by URL
+async function imageIds(prisma: Prisma.TransactionClient, images: Map<string, Omit<Prisma.ImageCreateManyInput, "url">>) {
+    const urls = [...images.keys()]
+    const existing = await prisma.image.findMany({ where: { url: { in: urls } }, select: { url: true } })
+    const known = new Set(existing.map(image => image.url))
+    const missing = urls.filter(url => !known.has(url))
+
+    for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+        await prisma.image.createMany({
+            data: missing.slice(i, i + BATCH_SIZE).map(url => ({ url, ...images.get(url)! }))
+        })
+    }
+
+    const rows = await prisma.image.findMany({ where: { url: { in: urls } }, select: { id: true, url: true } })
+    return { ids: new Map(rows.map(row => [row.url, row.id])), created: missing.length }
+}
+
+// Adds the images of a rankings export with their ratings and vote counts. Images that already exist are left alone.
+export async function importRankings(prisma: PrismaClient, records: ExportRecord[]) {
+    const { images, created, collections } = await prisma.$transaction(async tx => {
+        const slugs = new Set(records.map((record, index) => text(record, "collection", `Row ${index + 1}`)))
+        const collections = await collectionIds(tx, slugs)
+        const initial = (await currentRatingEngine(tx)).initial()
+
+        const images = new Map<string, Omit<Prisma.ImageCreateManyInput, "url">>()
+        records.forEach((record, index) => {
+            const where = `Row ${index + 1}`
+            images.set(text(record, "url", where), {
+                collectionId: collections.get(text(record, "collection", where))!,
+                name: text(record, "name", where),
+                elo: number(record, "rating", where) ?? initial.rating,
+                deviation: number(record, "deviation", where),
+                volatility: number(record, "volatility", where),
+                matchCount: number(record, "votes", where) ?? 0,
+                hiddenAt: String(record.hidden) === "true" ? new Date() : null
+            })
+        })
+
+        const { created } = await imageIds(tx, images)
+        return { images: images.size, created, collections }
+    }, { timeout: IMPORT_TIMEOUT_MS })
+
+    await notifyLeaderboardChanged(prisma, collections.values())
+    return { images, created }
+}
+
+// Adds the matches of a votes export, in the order they were cast. Images they refer to that don't exist yet are
+// created at the initial rating; replay the history afterwards to bring ratings in line with it.
+// Refuses to run when the database already has votes, since importing the same history twice would double it.
+export async function importVotes(prisma: PrismaClient, records: ExportRecord[]) {
+    const votes = records.map((record, index) => {
+        const where = `Row ${index + 1}`
+        const createdAt = new Date(text(record, "createdAt", where))
+        if (Number.isNaN(createdAt.getTime())) throw new Error(`${where}: invalid createdAt "${record.createdAt}"`)
+
+        return {
+            id: number(record, "id", where) ?? index,
+            createdAt,
+            collection: text(record, "collection", where),
+            outcome: oneOf(record, "outcome", matchOutcomes, where) ?? "WIN",
+            winner: { url: text(record, "winnerUrl", where), name: text(record, "winnerName", where) },
+            loser: { url: text(record, "loserUrl", where), name: text(record, "loserName", where) },
+            winnerEloBefore: number(record, "winnerRatingBefore", where) ?? 0,
+            winnerEloAfter: number(record, "winnerRatingAfter", where) ?? 0,
+            loserEloBefore: number(record, "loserRatingBefore", where) ?? 0,
+            loserEloAfter: number(record, "loserRatingAfter", where) ?? 0,
+            weight: number(record, "weight", where) ?? 1,
+            sessionId: record.sessionId ? String(record.sessionId) : "imported",
+            winnerSide: oneOf(record, "winnerSide", matchSides, where),
+            decisionMs: number(record, "decisionMs", where)
+        }
+    }).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+
+    const { collections, created } = await prisma.$transaction(async tx => {
+        // Keeps votes (and another import) out until this one commits, so the check below holds
+        await tx.$executeRaw`LOCK TABLE "Match" IN SHARE ROW EXCLUSIVE MODE`
+        if (await tx.match.count() > 0) {
+            throw new Error("This database already has votes; import vote history into a fresh database")
+        }
+
+        const collections = await collectionIds(tx, new Set(votes.map(vote => vote.collection)))
+        const initial = (await currentRatingEngine(tx)).initial()
+        const images = new Map<string, Omit<Prisma.ImageCreateManyInput, "url">>()
+        for (const vote of votes) {
+            for (const image of [vote.winner, vote.loser]) {
+                if (!images.has(image.url)) {
+                    images.set(image.url, {
+                        collectionId: collections.get(vote.collection)!,
+                        name: image.name,
+                        elo: initial.rating,
+                        deviation: initial.deviation,
+                        volatility: initial.volatility
+                    })
+                }
+            }
+        }
+        const { ids, created } = await imageIds(tx, images)
+
+        for (let i = 0; i < votes.length; i += BATCH_SIZE) {
+            await tx.match.createMany({
+                data: votes.slice(i, i + BATCH_SIZE).map(({ id, collection, winner, loser, ...vote }) => ({
+                    ...vote,
+                    winnerId: ids.get(winner.url)!,
+                    loserId: ids.get(loser.url)!
+                }))
+            })
+        }
+        return { collections, created }
+    }, { timeout: IMPORT_TIMEOUT_MS })
+
+    await notifyLeaderboardChanged(prisma, collections.values())
+    return { votes: votes.length, createdImages: created }
+}
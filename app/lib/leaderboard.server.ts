@@ -0,0 +1,158 @@
+import { Prisma } from "@prisma/client"
+import { db } from "~/db.server"
+import { getBradleyTerryScores } from "~/lib/bradley-terry.server"
+import { visibleImage } from "~/lib/images.server"
+import { getPreviousRanks } from "~/lib/snapshots.server"
+
+export type LeaderboardSort = "rating" | "votes" | "recent"
+
+export const leaderboardSorts: LeaderboardSort[] = ["rating", "votes", "recent"]
+
+export function isLeaderboardSort(value: unknown): value is LeaderboardSort {
+    return leaderboardSorts.includes(value as LeaderboardSort)
+}
+
+const orderBy: Record<LeaderboardSort, Prisma.ImageOrderByWithRelationInput[]> = {
+    rating: [{ elo: "desc" }, { id: "asc" }],
+    votes: [{ matchCount: "desc" }, { id: "asc" }],
+    recent: [{ createdAt: "desc" }, { id: "desc" }]
+}
+
+const leaderboardSelect = {
+    id: true,
+    name: true,
+    url: true,
+    elo: true,
+    deviation: true,
+    matchCount: true,
+    createdAt: true
+} as const
+
+export interface RatingRank {
+    // Competition ranking ("1224"): ties share a rank and the next rank is skipped
+    rank: number
+    // Dense ranking ("1223"): ties share a rank and no ranks are skipped
+    denseRank: number
+}
+
+// Rating ranks of the given images within their collection, whatever order they are displayed in
+export async function getRatingRanks(collectionId: number, ids: number[]): Promise<Map<number, RatingRank>> {
+    if (ids.length === 0) return new Map()
+
+    const rows = await db.$queryRaw<{ id: number, rank: bigint, dense_rank: bigint }[]>`
+        SELECT id, rank, dense_rank FROM (
+            SELECT "id",
+                RANK() OVER (ORDER BY "elo" DESC) AS rank,
+                DENSE_RANK() OVER (ORDER BY "elo" DESC) AS dense_rank
+            FROM "Image"
+            WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL
+        ) AS ranked
+        WHERE id IN (${Prisma.join(ids)})`
+
+    return new Map(rows.map(row => [row.id, { rank: Number(row.rank), denseRank: Number(row.dense_rank) }]))
+}
+
+export interface LeaderboardQuery {
+    collectionId: number
+    sort: LeaderboardSort
+    search?: string
+    // Keyset pagination: the id of the last row of the previous page, or the first row of the next page
+    after?: number
+    before?: number
+    // Start the page at this rating rank (ignores sort and search)
+    jumpToRank?: number
+    limit: number
+}
+
+export async function getLeaderboardPage(query: LeaderboardQuery) {
+    const jumping = query.jumpToRank !== undefined
+    const sort = jumping ? "rating" : query.sort
+    const where: Prisma.ImageWhereInput = {
+        collectionId: query.collectionId,
+        ...visibleImage,
+        ...(!jumping && query.search && { name: { contains: query.search, mode: "insensitive" } })
+    }
+
+    // One extra row tells us whether there is another page in the direction we're moving
+    const backwards = !jumping && query.before !== undefined
+    const cursorId = jumping ? undefined : backwards ? query.before : query.after
+    const [rows, total] = await Promise.all([
+        db.image.findMany({
+            where,
+            select: leaderboardSelect,
+            orderBy: orderBy[sort],
+            take: backwards ? -(query.limit + 1) : query.limit + 1,
+            ...(cursorId !== undefined && { cursor: { id: cursorId }, skip: 1 }),
+            ...(jumping && { skip: Math.max(0, query.jumpToRank! - 1) })
+        }),
+        db.image.count({ where })
+    ])
+
+    const hasMore = rows.length > query.limit
+    const images = backwards ? rows.slice(hasMore ? 1 : 0) : rows.slice(0, query.limit)
+    const ids = images.map(image => image.id)
+    const [ranks, previous, bradleyTerry] = await Promise.all([
+        getRatingRanks(query.collectionId, ids),
+        getPreviousRanks(db, query.collectionId, ids),
+        getBradleyTerryScores(db, query.collectionId, ids)
+    ])
+
+    const hasPrevious = backwards ? hasMore : cursorId !== undefined || (jumping && query.jumpToRank! > 1)
+    const hasNext = backwards ? true : hasMore
+
+    return {
+        sort,
+        // Rank in the latest snapshot, null for images added since (or when there are no snapshots yet), and place in
+        // the latest Bradley–Terry fit, null likewise
+        images: images.map(image => ({
+            ...image,
+            ...ranks.get(image.id)!,
+            previousRank: previous?.ranks.get(image.id) ?? null,
+            bradleyTerry: bradleyTerry?.scores.get(image.id) ?? null
+        })),
+        rankChangeSince: previous?.since ?? null,
+        bradleyTerry: bradleyTerry?.run ?? null,
+        before: hasPrevious && images.length > 0 ? images[0].id : null,
+        after: hasNext && images.length > 0 ? images[images.length - 1].id : null,
+        total
+    }
+}
+
+const homeSelect = {
+    id: true,
+    name: true,
+    url: true,
+    elo: true,
+    deviation: true,
+    matchCount: true
+} as const
+
+// The home page's top and bottom of a collection (worst last), with rating ranks and places in the latest
+// Bradley–Terry fit. Also sent by the live updates stream.
+export async function getHomeLeaderboard(collectionId: number, limit: number) {
+    const where: Prisma.ImageWhereInput = { collectionId, ...visibleImage }
+    const [totalImages, topImages, bottomImages] = await Promise.all([
+        db.image.count({ where }),
+        db.image.findMany({ where, select: homeSelect, orderBy: [{ elo: "desc" }, { id: "asc" }], take: limit }),
+        db.image.findMany({ where, select: homeSelect, orderBy: [{ elo: "asc" }, { id: "desc" }], take: limit })
+    ])
+
+    // Ranks come from the database so tied ratings share a rank
+    const ids = [...topImages, ...bottomImages].map(image => image.id)
+    const [ranks, bradleyTerry] = await Promise.all([
+        getRatingRanks(collectionId, ids),
+        getBradleyTerryScores(db, collectionId, ids)
+    ])
+    const withRank = <T extends { id: number }>(image: T) => ({
+        ...image,
+        rank: ranks.get(image.id)!.rank,
+        bradleyTerry: bradleyTerry?.scores.get(image.id) ?? null
+    })
+
+    return {
+        totalImages,
+        bradleyTerry: bradleyTerry?.run ?? null,
+        topImages: topImages.map(withRank),
+        bottomImages: bottomImages.reverse().map(withRank)
+    }
+}
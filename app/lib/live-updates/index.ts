@@ -0,0 +1,84 @@
+import { getHomeLeaderboard } from "~/lib/leaderboard.server"
+import { LEADERBOARD_CHANNEL, notifyLeaderboardChanged } from "./notify"
+import { createPostgresListener, type PostgresListener } from "./postgres"
+
+export { LEADERBOARD_CHANNEL, notifyLeaderboardChanged }
+
+// Fans leaderboard changes out to the browsers subscribed to this server instance. Votes and bulk changes on any
+// instance send a Postgres notification (see notify.ts); every instance listens, and re-reads a collection's
+// leaderboard at most once per debounce window, and only while someone is watching it.
+
+export const liveUpdateSettings = {
+    // Votes landing within this window are sent as one update
+    debounceMs: Number(process.env.LIVE_UPDATES_DEBOUNCE_MS) || 1000,
+    // Images at each end of the leaderboard, as on the home page
+    limit: 50
+}
+
+export type HomeLeaderboard = Awaited<ReturnType<typeof getHomeLeaderboard>>
+
+export interface LeaderboardSubscriber {
+    update: (leaderboard: HomeLeaderboard) => void
+    // The instance lost its LISTEN connection; updates would silently stop, so subscribers should fall back to polling
+    disconnect: () => void
+}
+
+const subscribers = new Map<number, Set<LeaderboardSubscriber>>()
+const pending = new Map<number, ReturnType<typeof setTimeout>>()
+let listener: PostgresListener | null = null
+let ready: Promise<boolean> | null = null
+
+function refresh(collectionId: number) {
+    if (!subscribers.has(collectionId) || pending.has(collectionId)) return
+
+    pending.set(collectionId, setTimeout(async () => {
+        pending.delete(collectionId)
+        const watching = subscribers.get(collectionId)
+        if (!watching) return
+
+        try {
+            const leaderboard = await getHomeLeaderboard(collectionId, liveUpdateSettings.limit)
+            watching.forEach(subscriber => subscriber.update(leaderboard))
+        } catch (error) {
+            console.error("Failed to refresh the live leaderboard:", error)
+        }
+    }, liveUpdateSettings.debounceMs))
+}
+
+// Starts listening on first use; resolves to whether the LISTEN connection is up (waiting for the first attempt)
+function ensureListening(): Promise<boolean> {
+    if (listener) return ready ?? Promise.resolve(listener.connected)
+    if (!process.env.DATABASE_URL) return Promise.resolve(false)
+
+    ready = new Promise(resolve => {
+        const timeout = setTimeout(() => resolve(false), 5000)
+        listener = createPostgresListener(process.env.DATABASE_URL!, LEADERBOARD_CHANNEL, {
+            onNotification: payload => refresh(Number(payload)),
+            onStateChange: connected => {
+                clearTimeout(timeout)
+                resolve(connected)
+                if (!connected) {
+                    for (const watching of subscribers.values()) watching.forEach(subscriber => subscriber.disconnect())
+                }
+            }
+        })
+    })
+    // Once the first attempt has settled, later calls get the connection's current state
+    ready.then(() => { ready = null })
+    return ready
+}
+
+// Subscribes to a collection's leaderboard. Resolves to an unsubscribe function, or null when updates can't be
+// delivered (no LISTEN connection), in which case the caller should tell the browser to poll instead.
+export async function subscribeToLeaderboard(collectionId: number, subscriber: LeaderboardSubscriber) {
+    if (!await ensureListening()) return null
+
+    const watching = subscribers.get(collectionId) ?? new Set()
+    watching.add(subscriber)
+    subscribers.set(collectionId, watching)
+
+    return () => {
+        watching.delete(subscriber)
+        if (watching.size === 0) subscribers.delete(collectionId)
+    }
+}
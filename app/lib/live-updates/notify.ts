@@ -0,0 +1,41 @@
+import type { PrismaClient } from "@prisma/client"
+
+export const LEADERBOARD_CHANNEL = "leaderboard_changed"
+
+// Votes on one collection are announced at most this often by each instance; listeners debounce further
+const VOTE_NOTIFY_INTERVAL_MS = 250
+
+// Collections with a vote announced within the interval, and whether another vote has landed since
+const throttled = new Map<number, { again: boolean }>()
+
+// Tells every server instance that the ratings or images of these collections changed. Sent after the change has
+// committed, outside any transaction: a NOTIFY inside one takes a lock that serializes every committing transaction
+// that sent one. A lost notification only delays the update, so failures are logged rather than thrown.
+export async function notifyLeaderboardChanged(prisma: PrismaClient, collectionIds: number | Iterable<number>) {
+    const ids = typeof collectionIds === "number" ? [collectionIds] : new Set(collectionIds)
+    for (const collectionId of ids) {
+        try {
+            await prisma.$executeRaw`SELECT pg_notify(${LEADERBOARD_CHANNEL}, ${String(collectionId)})`
+        } catch (error) {
+            console.error("Failed to announce a leaderboard change:", error)
+        }
+    }
+}
+
+// Announces a vote right away, unless one on the same collection was announced within the interval; then a single
+// announcement follows when it's up, however many votes landed in between
+export function notifyVoteRecorded(prisma: PrismaClient, collectionId: number) {
+    const pending = throttled.get(collectionId)
+    if (pending) {
+        pending.again = true
+        return
+    }
+
+    const state = { again: false }
+    throttled.set(collectionId, state)
+    notifyLeaderboardChanged(prisma, collectionId)
+    setTimeout(() => {
+        throttled.delete(collectionId)
+        if (state.again) notifyVoteRecorded(prisma, collectionId)
+    }, VOTE_NOTIFY_INTERVAL_MS).unref()
+}
@@ -0,0 +1,168 @@
+import fs from "fs"
+import pg from "pg"
+import type { ConnectionOptions } from "tls"
+
+// Holds one connection open to LISTEN on a channel, reconnecting with backoff whenever it's lost. Prisma can't hold
+// a connection open to LISTEN on, so this one goes through the pg client.
+
+const MAX_RECONNECT_DELAY_MS = 30_000
+const CONNECT_TIMEOUT_MS = 10_000
+
+export interface PostgresListener {
+    readonly connected: boolean
+    close(): void
+}
+
+export interface PostgresListenerOptions {
+    onNotification: (payload: string) => void
+    // Called whenever the LISTEN connection comes up or goes down; it reconnects by itself
+    onStateChange?: (connected: boolean) => void
+}
+
+// The TLS settings to try, in order, for the URL's sslmode, which like libpq and Prisma defaults to "prefer":
+// TLS if the server offers it, otherwise plaintext. false means plaintext.
+function tlsAttempts(url: URL): (ConnectionOptions | false)[] {
+    const rootCert = url.searchParams.get("sslrootcert")
+    const ca = rootCert ? fs.readFileSync(rootCert, "utf8") : undefined
+    // Encrypted but unverified, unless there's a root certificate to check against (as libpq does)
+    const encrypted: ConnectionOptions = ca ? { ca, checkServerIdentity: () => undefined } : { rejectUnauthorized: false }
+
+    const sslMode = url.searchParams.get("sslmode") ?? "prefer"
+    switch (sslMode) {
+        case "disable":
+            return [false]
+        case "allow":
+            return [false, encrypted]
+        case "prefer":
+            return [encrypted, false]
+        case "require":
+            return [encrypted]
+        case "verify-ca":
+            return [{ ca, checkServerIdentity: () => undefined }]
+        case "verify-full":
+            return [{ ca }]
+        default:
+            throw new Error(`Unsupported sslmode "${sslMode}"`)
+    }
+}
+
+// Connects to the database in `databaseUrl` (a Prisma/libpq style postgresql:// URL) and listens on `channel`,
+// reconnecting with backoff whenever the connection is lost
+export function createPostgresListener(databaseUrl: string, channel: string, options: PostgresListenerOptions): PostgresListener {
+    const url = new URL(databaseUrl)
+    const user = decodeURIComponent(url.username)
+    const password = decodeURIComponent(url.password)
+    const attemptsPerConnect = tlsAttempts(url)
+
+    let client: pg.Client | null = null
+    let connected = false
+    let closed = false
+    let attempts = 0
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+    function setConnected(value: boolean) {
+        if (connected === value) return
+        connected = value
+        options.onStateChange?.(value)
+    }
+
+    function scheduleReconnect() {
+        setConnected(false)
+        if (closed || reconnectTimer) return
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts++)
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null
+            connect()
+        }, delay)
+    }
+
+    function lost(candidate: pg.Client) {
+        if (client !== candidate) return
+        client = null
+        candidate.end().catch(() => { })
+        scheduleReconnect()
+    }
+
+    async function open(tls: ConnectionOptions | false) {
+        // Seen before the client answers the server's authentication request
+        let cleartextRequested = false
+        const candidate = new pg.Client({
+            host: url.searchParams.get("host") ?? url.hostname,
+            port: Number(url.port) || 5432,
+            user,
+            database: decodeURIComponent(url.pathname.slice(1)) || user,
+            ssl: tls,
+            application_name: "live-updates",
+            keepAlive: true,
+            keepAliveInitialDelayMillis: 30_000,
+            connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+            // Only asked for once the server wants a password
+            password: () => {
+                if (cleartextRequested && !tls) {
+                    throw new Error("The server asked for a cleartext password over an unencrypted connection; refusing to send it (use sslmode=require)")
+                }
+                return password
+            }
+        })
+        candidate.connection.on("authenticationCleartextPassword", () => { cleartextRequested = true })
+        // Errors while connecting reject connect() or the query below; this keeps late ones from going unhandled
+        candidate.on("error", () => { })
+
+        try {
+            await candidate.connect()
+            await candidate.query(`LISTEN ${candidate.escapeIdentifier(channel)}`)
+            return candidate
+        } catch (error) {
+            candidate.end().catch(() => { })
+            throw error
+        }
+    }
+
+    async function connect() {
+        for (const tls of attemptsPerConnect) {
+            if (closed) return
+
+            let candidate: pg.Client
+            try {
+                candidate = await open(tls)
+            } catch (error) {
+                console.error(`Postgres LISTEN connection failed${tls ? " (TLS)" : ""}: ${error instanceof Error ? error.message : error}`)
+                continue
+            }
+
+            if (closed) {
+                candidate.end().catch(() => { })
+                return
+            }
+            client = candidate
+            candidate.on("notification", notification => {
+                if (notification.channel === channel) options.onNotification(notification.payload ?? "")
+            })
+            candidate.on("error", error => {
+                console.error(`Postgres LISTEN connection failed: ${error.message}`)
+                lost(candidate)
+            })
+            candidate.on("end", () => lost(candidate))
+            attempts = 0
+            setConnected(true)
+            return
+        }
+        scheduleReconnect()
+    }
+
+    connect()
+
+    return {
+        get connected() {
+            return connected
+        },
+        close() {
+            closed = true
+            if (reconnectTimer) clearTimeout(reconnectTimer)
+            const current = client
+            client = null
+            current?.end().catch(() => { })
+            setConnected(false)
+        }
+    }
+}
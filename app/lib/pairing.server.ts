@@ -0,0 +1,230 @@
+import { db } from "~/db.server"
+import { visibleImage } from "~/lib/images.server"
+import { ratingEngine, toRating } from "~/lib/rating"
+
+// Chooses which two images are shown next. Uniformly random pairs mostly pit a top image against a bottom one,
+// which tells us almost nothing, so the informative strategies pick an anchor image and then an opponent whose
+// outcome is hard to predict. A share of pairs stays uniformly random to keep exploring the whole pool.
+// Pairs that voters keep skipping are shown less often.
+
+export type PairingStrategyName = "random" | "close" | "least-compared" | "information"
+
+export const pairingStrategyNames: PairingStrategyName[] = ["random", "close", "least-compared", "information"]
+
+function isPairingStrategyName(value: unknown): value is PairingStrategyName {
+    return pairingStrategyNames.includes(value as PairingStrategyName)
+}
+
+function ratioFromEnv(name: string, fallback: number) {
+    const value = Number(process.env[name])
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 && value <= 1 ? value : fallback
+}
+
+export const pairingSettings = {
+    strategy: isPairingStrategyName(process.env.PAIRING_STRATEGY) ? process.env.PAIRING_STRATEGY : "information",
+    // Share of pairs that ignore the strategy and are picked uniformly at random
+    exploration: ratioFromEnv("PAIRING_EXPLORATION", 0.1),
+}
+
+const pairSelect = {
+    id: true,
+    name: true,
+    url: true,
+    elo: true,
+    deviation: true,
+    volatility: true,
+    matchCount: true
+} as const
+
+// How many images above and below the anchor's rating are considered as opponents
+const NEIGHBOURHOOD = 10
+// How many of the least-compared / most uncertain images an anchor is drawn from
+const ANCHOR_POOL = 20
+// How many times a pair can be re-picked because it was often skipped before one is shown anyway
+const SKIP_REPICKS = 2
+
+type Candidate = {
+    id: number
+    name: string
+    url: string
+    elo: number
+    deviation: number | null
+    volatility: number | null
+    matchCount: number
+}
+
+function pickRandom<T>(items: T[]) {
+    return items[Math.floor(Math.random() * items.length)]
+}
+
+// Uncertainty proxy that also works for classic Elo, which has no deviation of its own
+function uncertainty(image: Candidate) {
+    return image.deviation ?? 400 / Math.sqrt(image.matchCount + 1)
+}
+
+async function randomImages(collectionId: number, count: number) {
+    const total = await db.image.count({ where: { collectionId, ...visibleImage } })
+
+    if (total < count) {
+        throw new Error("Need at least 2 images in this collection")
+    }
+
+    // Use more efficient random selection for larger datasets
+    const offsets = new Set<number>()
+    while (offsets.size < count) {
+        offsets.add(Math.floor(Math.random() * total))
+    }
+
+    const images = await Promise.all([...offsets].map(offset =>
+        db.image.findFirst({ where: { collectionId, ...visibleImage }, skip: offset, select: pairSelect })
+    ))
+
+    if (images.some(image => !image)) {
+        throw new Error("Failed to load images")
+    }
+    return images as Candidate[]
+}
+
+// Images with the closest ratings to the anchor on either side
+async function neighbours(collectionId: number, anchor: Candidate) {
+    const [above, below] = await Promise.all([
+        db.image.findMany({
+            where: { collectionId, ...visibleImage, elo: { gte: anchor.elo }, id: { not: anchor.id } },
+            orderBy: { elo: "asc" },
+            take: NEIGHBOURHOOD,
+            select: pairSelect
+        }),
+        db.image.findMany({
+            where: { collectionId, ...visibleImage, elo: { lte: anchor.elo }, id: { not: anchor.id } },
+            orderBy: { elo: "desc" },
+            take: NEIGHBOURHOOD,
+            select: pairSelect
+        })
+    ])
+
+    const seen = new Set<number>()
+    const candidates = [...above, ...below].filter(image => !seen.has(image.id) && seen.add(image.id))
+
+    if (candidates.length === 0) {
+        throw new Error("Need at least 2 images in this collection")
+    }
+    return candidates
+}
+
+// Expected information of a vote: outcomes near 50/50 and uncertain ratings teach us the most
+function informationGain(anchor: Candidate, opponent: Candidate) {
+    const p = ratingEngine.expectedScore(toRating(anchor), toRating(opponent))
+    return p * (1 - p) * (uncertainty(anchor) + uncertainty(opponent))
+}
+
+async function closeOpponent(collectionId: number, anchor: Candidate) {
+    return pickRandom(await neighbours(collectionId, anchor))
+}
+
+async function informativeOpponent(collectionId: number, anchor: Candidate) {
+    const candidates = await neighbours(collectionId, anchor)
+    return candidates.reduce((best, candidate) =>
+        informationGain(anchor, candidate) > informationGain(anchor, best) ? candidate : best
+    )
+}
+
+const strategies: Record<PairingStrategyName, (collectionId: number) => Promise<Candidate[]>> = {
+    random: (collectionId) => randomImages(collectionId, 2),
+
+    close: async (collectionId) => {
+        const [anchor] = await randomImages(collectionId, 1)
+        return [anchor, await closeOpponent(collectionId, anchor)]
+    },
+
+    "least-compared": async (collectionId) => {
+        const pool = await db.image.findMany({
+            where: { collectionId, ...visibleImage },
+            orderBy: [{ matchCount: "asc" }, { createdAt: "desc" }],
+            take: ANCHOR_POOL,
+            select: pairSelect
+        })
+        if (pool.length === 0) {
+            throw new Error("Need at least 2 images in this collection")
+        }
+
+        const anchor = pickRandom(pool)
+        return [anchor, await closeOpponent(collectionId, anchor)]
+    },
+
+    information: async (collectionId) => {
+        const pool = await db.image.findMany({
+            where: { collectionId, ...visibleImage },
+            orderBy: [{ deviation: { sort: "desc", nulls: "last" } }, { matchCount: "asc" }],
+            take: ANCHOR_POOL,
+            select: pairSelect
+        })
+        if (pool.length === 0) {
+            throw new Error("Need at least 2 images in this collection")
+        }
+
+        const anchor = pickRandom(pool)
+        return [anchor, await informativeOpponent(collectionId, anchor)]
+    }
+}
+
+// Votes and skips of one pair in either order. Votes from quarantined sessions don't count.
+async function pairHistory(imageAId: number, imageBId: number) {
+    const rows = await db.match.groupBy({
+        by: ["outcome"],
+        where: {
+            weight: { gt: 0 },
+            OR: [{ winnerId: imageAId, loserId: imageBId }, { winnerId: imageBId, loserId: imageAId }]
+        },
+        _count: { _all: true }
+    })
+    const skips = rows.find(row => row.outcome === "SKIP")?._count._all ?? 0
+    const votes = rows.reduce((sum, row) => sum + row._count._all, 0) - skips
+    return { skips, votes }
+}
+
+// Chance of showing a pair: 1 when it has never been skipped, falling as skips outnumber votes
+async function showProbability(imageAId: number, imageBId: number) {
+    const { skips, votes } = await pairHistory(imageAId, imageBId)
+    return (votes + 1) / (votes + skips + 1)
+}
+
+export async function pickPair(collectionId: number, settings = pairingSettings) {
+    const strategy = Math.random() < settings.exploration ? "random" : settings.strategy
+    let pair = await strategies[strategy](collectionId)
+    for (let repicks = 0; repicks < SKIP_REPICKS; repicks++) {
+        if (Math.random() < await showProbability(pair[0].id, pair[1].id)) break
+        pair = await strategies[strategy](collectionId)
+    }
+
+    // Randomise sides so the anchor isn't always on the left
+    const [imageA, imageB] = Math.random() < 0.5 ? pair : [pair[1], pair[0]]
+    return {
+        imageA: { id: imageA.id, name: imageA.name, url: imageA.url, elo: imageA.elo },
+        imageB: { id: imageB.id, name: imageB.name, url: imageB.url, elo: imageB.elo }
+    }
+}
+
+export interface SkippedPair {
+    imageAId: number
+    imageBId: number
+    skips: number
+    votes: number
+    lastSkippedAt: Date
+}
+
+// Pairs with the most skips, for spotting near-duplicates or pairs nobody can decide on
+export async function mostSkippedPairs(limit: number) {
+    const rows = await db.$queryRaw<{ imageAId: number, imageBId: number, skips: bigint, votes: bigint, lastSkippedAt: Date }[]>`
+        SELECT LEAST("winnerId", "loserId") AS "imageAId", GREATEST("winnerId", "loserId") AS "imageBId",
+            COUNT(*) FILTER (WHERE "outcome" = 'SKIP') AS "skips",
+            COUNT(*) FILTER (WHERE "outcome" <> 'SKIP') AS "votes",
+            MAX("createdAt") FILTER (WHERE "outcome" = 'SKIP') AS "lastSkippedAt"
+        FROM "Match"
+        WHERE "weight" > 0
+        GROUP BY 1, 2
+        HAVING COUNT(*) FILTER (WHERE "outcome" = 'SKIP') > 0
+        ORDER BY "skips" DESC, "votes" ASC
+        LIMIT ${limit}`
+
+    return rows.map((row): SkippedPair => ({ ...row, skips: Number(row.skips), votes: Number(row.votes) }))
+}
@@ -0,0 +1,116 @@
+import { db } from "~/db.server"
+import { visibleImage } from "~/lib/images.server"
+import { getRatingRanks } from "~/lib/leaderboard.server"
+import { ratingEngine, type Rating } from "~/lib/rating"
+
+const DIFFERENCE_LIMIT = 5
+// Images the voter has seen fewer times than this are left out of the "you differ" lists
+const DIFFERENCE_MIN_APPEARANCES = 2
+
+// Ranks with ties sharing their average position (1 = highest value)
+function averageRanks(values: number[]) {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => b.value - a.value)
+    const ranks = new Array<number>(values.length)
+
+    for (let start = 0; start < order.length;) {
+        let end = start
+        while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+        for (let i = start; i <= end; i++) ranks[order[i].index] = (start + end) / 2 + 1
+        start = end + 1
+    }
+    return ranks
+}
+
+function pearson(x: number[], y: number[]) {
+    const n = x.length
+    const meanX = x.reduce((sum, value) => sum + value, 0) / n
+    const meanY = y.reduce((sum, value) => sum + value, 0) / n
+    let covariance = 0
+    let varianceX = 0
+    let varianceY = 0
+    for (let i = 0; i < n; i++) {
+        covariance += (x[i] - meanX) * (y[i] - meanY)
+        varianceX += (x[i] - meanX) ** 2
+        varianceY += (y[i] - meanY) ** 2
+    }
+    return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY)
+}
+
+// Spearman's rank correlation, or null with fewer than three values or no variation
+export function rankCorrelation(x: number[], y: number[]) {
+    if (x.length < 3) return null
+    return pearson(averageRanks(x), averageRanks(y))
+}
+
+// A ranking built only from the given sessions' votes in one collection, compared with the global leaderboard.
+// Ratings are replayed with the configured engine from the initial rating, over the images the voter has seen.
+export async function getPersonalRanking(sessionIds: string[], collectionId: number) {
+    const inCollection = { collectionId, ...visibleImage }
+    const matches = await db.match.findMany({
+        where: { sessionId: { in: sessionIds }, outcome: { not: "SKIP" }, winner: inCollection, loser: inCollection },
+        select: { winnerId: true, loserId: true, outcome: true },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+    })
+
+    const ratings = new Map<number, Rating>()
+    const records = new Map<number, { wins: number, draws: number, losses: number }>()
+    const record = (id: number) => {
+        if (!records.has(id)) records.set(id, { wins: 0, draws: 0, losses: 0 })
+        return records.get(id)!
+    }
+
+    for (const match of matches) {
+        const winner = ratings.get(match.winnerId) ?? ratingEngine.initial()
+        const loser = ratings.get(match.loserId) ?? ratingEngine.initial()
+        const result = ratingEngine.rate(winner, loser, match.outcome === "DRAW" ? "draw" : "win")
+        ratings.set(match.winnerId, result.winner)
+        ratings.set(match.loserId, result.loser)
+        if (match.outcome === "DRAW") {
+            record(match.winnerId).draws++
+            record(match.loserId).draws++
+        } else {
+            record(match.winnerId).wins++
+            record(match.loserId).losses++
+        }
+    }
+
+    const ids = [...ratings.keys()]
+    const [images, globalRanks] = await Promise.all([
+        db.image.findMany({ where: { id: { in: ids } }, select: { id: true, name: true, url: true, elo: true } }),
+        getRatingRanks(collectionId, ids)
+    ])
+
+    const personalRatings = images.map(image => ratings.get(image.id)!.rating)
+    const globalRatings = images.map(image => image.elo)
+    // Ranks among the images this voter has seen, so both sides of the comparison cover the same images
+    const personalRanks = averageRanks(personalRatings)
+    const globalRanksAmongSeen = averageRanks(globalRatings)
+
+    const ranked = images
+        .map((image, i) => ({
+            ...image,
+            personalRating: personalRatings[i],
+            personalRank: personalRanks[i],
+            globalRank: globalRanks.get(image.id)?.rank ?? null,
+            // Positive when this voter ranks the image higher than everyone else does
+            rankDifference: globalRanksAmongSeen[i] - personalRanks[i],
+            ...records.get(image.id)!
+        }))
+        .sort((a, b) => a.personalRank - b.personalRank || a.name.localeCompare(b.name))
+
+    const comparable = ranked.filter(image => image.wins + image.draws + image.losses >= DIFFERENCE_MIN_APPEARANCES && Math.abs(image.rankDifference) >= 2)
+
+    return {
+        voteCount: matches.length,
+        images: ranked,
+        correlation: rankCorrelation(personalRatings, globalRatings),
+        ratedHigher: comparable
+            .filter(image => image.rankDifference > 0)
+            .sort((a, b) => b.rankDifference - a.rankDifference)
+            .slice(0, DIFFERENCE_LIMIT),
+        ratedLower: comparable
+            .filter(image => image.rankDifference < 0)
+            .sort((a, b) => a.rankDifference - b.rankDifference)
+            .slice(0, DIFFERENCE_LIMIT)
+    }
+}
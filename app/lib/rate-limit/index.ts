@@ -0,0 +1,155 @@
+// Token-bucket rate limits for the vote form, pair prefetching, the JSON API, uploads and the admin login.
+// RATE_LIMIT_STORE picks where buckets live: memory (default, per process), postgres, or redis (REDIS_URL).
+
+import { createMemoryStore } from "./memory"
+import { createPostgresStore } from "./postgres"
+import { createRedisStore } from "./redis"
+import type { BucketResult, RateLimitStore, RateLimitStoreName } from "./types"
+
+export type { BucketResult, RateLimitStore, RateLimitStoreName }
+
+export type RateLimitScope = "ip" | "session" | "apiKey"
+
+// A bucket of `capacity` requests that refills completely over `windowSeconds`
+export interface RateLimit {
+    scope: RateLimitScope
+    capacity: number
+    windowSeconds: number
+}
+
+// Limits per route. A request has to pass every limit in its policy.
+export const rateLimitPolicies = {
+    // API clients pick their voters' session ids, so their votes are also limited per key
+    vote: [
+        { scope: "ip", capacity: 30, windowSeconds: 60 },
+        { scope: "session", capacity: 20, windowSeconds: 60 },
+        { scope: "apiKey", capacity: 120, windowSeconds: 60 }
+    ],
+    apiPair: [{ scope: "apiKey", capacity: 120, windowSeconds: 60 }],
+    // The compare page's prefetch requests, each serving up to a few pairs
+    pairs: [
+        { scope: "ip", capacity: 60, windowSeconds: 60 },
+        { scope: "session", capacity: 40, windowSeconds: 60 }
+    ],
+    upload: [{ scope: "ip", capacity: 5, windowSeconds: 60 * 60 }],
+    adminLogin: [{ scope: "ip", capacity: 10, windowSeconds: 15 * 60 }],
+    voterLink: [{ scope: "ip", capacity: 10, windowSeconds: 15 * 60 }]
+} satisfies Record<string, RateLimit[]>
+
+export type RateLimitPolicyName = keyof typeof rateLimitPolicies
+
+export interface RateLimitDecision {
+    allowed: boolean
+    scope: RateLimitScope
+    limit: number
+    remaining: number
+    windowSeconds: number
+    // Seconds until the bucket is full again
+    resetSeconds: number
+    // Seconds until the next request would be allowed (0 when allowed)
+    retryAfterSeconds: number
+}
+
+export class RateLimitError extends Error {
+    constructor(public decision: RateLimitDecision) {
+        super(decision.scope === "session"
+            ? "Rate limit exceeded for this session. Please slow down."
+            : "Rate limit exceeded. Please slow down.")
+        this.name = "RateLimitError"
+    }
+}
+
+export function getClientIP(request: Request) {
+    return request.headers.get("x-forwarded-for")?.split(',')[0] ||
+        request.headers.get("x-real-ip") ||
+        request.headers.get("cf-connecting-ip") ||
+        "unknown"
+}
+
+export const rateLimitStoreNames: RateLimitStoreName[] = ["memory", "postgres", "redis"]
+
+export function createRateLimitStore(name: RateLimitStoreName = (process.env.RATE_LIMIT_STORE as RateLimitStoreName) || "memory"): RateLimitStore {
+    switch (name) {
+        case "postgres":
+            return createPostgresStore()
+        case "redis":
+            if (!process.env.REDIS_URL) throw new Error("RATE_LIMIT_STORE=redis requires REDIS_URL")
+            return createRedisStore(process.env.REDIS_URL)
+        case "memory":
+            return createMemoryStore()
+        default:
+            throw new Error(`RATE_LIMIT_STORE must be one of ${rateLimitStoreNames.join(", ")}, got "${name}"`)
+    }
+}
+
+export const rateLimitStore = createRateLimitStore()
+
+function toDecision(limit: RateLimit, bucket: BucketResult): RateLimitDecision {
+    const refillPerSecond = limit.capacity / limit.windowSeconds
+    return {
+        allowed: bucket.allowed,
+        scope: limit.scope,
+        limit: limit.capacity,
+        remaining: Math.max(0, Math.floor(bucket.tokens)),
+        windowSeconds: limit.windowSeconds,
+        resetSeconds: Math.ceil((limit.capacity - bucket.tokens) / refillPerSecond),
+        retryAfterSeconds: bucket.allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillPerSecond)
+    }
+}
+
+// Takes a token from each of the policy's buckets and returns the most restrictive result.
+// Stops at the first exhausted bucket, so the buckets after it aren't charged for a rejected request; the ones
+// checked before it have already given up a token.
+// If the store is unreachable the request is let through rather than taking voting down with it.
+export async function checkRateLimit(
+    policyName: RateLimitPolicyName,
+    identity: Partial<Record<RateLimitScope, string>>,
+    store: RateLimitStore = rateLimitStore
+): Promise<RateLimitDecision | null> {
+    let tightest: RateLimitDecision | null = null
+
+    for (const limit of rateLimitPolicies[policyName] as RateLimit[]) {
+        const id = identity[limit.scope]
+        if (!id) continue
+
+        let bucket: BucketResult
+        try {
+            bucket = await store.consume(`${policyName}:${limit.scope}:${id}`, limit.capacity, limit.capacity / limit.windowSeconds)
+        } catch (error) {
+            console.error(`Rate-limit store (${store.name}) failed, allowing request:`, error)
+            continue
+        }
+
+        const decision = toDecision(limit, bucket)
+        if (!decision.allowed) return decision
+        if (!tightest || decision.remaining / decision.limit < tightest.remaining / tightest.limit) {
+            tightest = decision
+        }
+    }
+
+    return tightest
+}
+
+// Like checkRateLimit, but throws RateLimitError when the request is over the limit
+export async function enforceRateLimit(policyName: RateLimitPolicyName, identity: Partial<Record<RateLimitScope, string>>) {
+    const decision = await checkRateLimit(policyName, identity)
+    if (decision && !decision.allowed) {
+        throw new RateLimitError(decision)
+    }
+    return decision
+}
+
+// RateLimit-* headers (IETF httpapi draft) plus Retry-After when the request was rejected
+export function rateLimitHeaders(decision: RateLimitDecision | null) {
+    const headers = new Headers()
+    if (!decision) return headers
+
+    headers.set("RateLimit-Limit", String(decision.limit))
+    headers.set("RateLimit-Remaining", String(decision.remaining))
+    headers.set("RateLimit-Reset", String(decision.resetSeconds))
+    headers.set("RateLimit-Policy", `${decision.limit};w=${decision.windowSeconds}`)
+    if (!decision.allowed) {
+        headers.set("Retry-After", String(decision.retryAfterSeconds))
+    }
+    return headers
+}
@@ -0,0 +1,38 @@
+import type { RateLimitStore } from "./types"
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+// Buckets in this process only: they reset on restart and aren't shared between replicas
+export function createMemoryStore(): RateLimitStore {
+    const buckets = new Map<string, { tokens: number, updatedAt: number, capacity: number, refillPerSecond: number }>()
+    let lastSweep = Date.now()
+
+    // Drops buckets that have refilled completely, since a missing bucket counts as full
+    function sweep(now: number) {
+        lastSweep = now
+        for (const [key, bucket] of buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) / 1000 * bucket.refillPerSecond >= bucket.capacity) {
+                buckets.delete(key)
+            }
+        }
+    }
+
+    return {
+        name: "memory",
+
+        async consume(key, capacity, refillPerSecond) {
+            const now = Date.now()
+            if (now - lastSweep > SWEEP_INTERVAL_MS) sweep(now)
+
+            const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now, capacity, refillPerSecond }
+            bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * refillPerSecond)
+            bucket.updatedAt = now
+
+            const allowed = bucket.tokens >= 1
+            if (allowed) bucket.tokens -= 1
+            buckets.set(key, bucket)
+
+            return { allowed, tokens: bucket.tokens }
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { Prisma } from "@prisma/client"
+import { db } from "~/db.server"
+import type { RateLimitStore } from "./types"
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000
+
+// Buckets in the RateLimitBucket table, shared by every replica. Each request is a single upsert,
+// so concurrent requests for the same key are serialized by the row lock.
+export function createPostgresStore(): RateLimitStore {
+    let lastCleanup = 0
+
+    // Buckets idle for a day are full again for every configured limit
+    function cleanup() {
+        lastCleanup = Date.now()
+        db.$executeRaw`DELETE FROM "RateLimitBucket" WHERE "updatedAt" < now() - interval '1 day'`
+            .catch(error => console.error("Failed to clean up rate-limit buckets:", error))
+    }
+
+    return {
+        name: "postgres",
+
+        async consume(key, capacity, refillPerSecond) {
+            if (Date.now() - lastCleanup > CLEANUP_INTERVAL_MS) cleanup()
+
+            // Every expression in SET sees the row as it was before the update
+            const refilled = Prisma.sql`LEAST(
+                ${capacity}::double precision,
+                b."tokens" + EXTRACT(EPOCH FROM now() - b."updatedAt")::double precision * ${refillPerSecond}::double precision
+            )`
+
+            const [row] = await db.$queryRaw<{ tokens: number, allowed: boolean }[]>`
+                INSERT INTO "RateLimitBucket" AS b ("key", "tokens", "allowed", "updatedAt")
+                VALUES (${key}, ${capacity - 1}::double precision, true, now())
+                ON CONFLICT ("key") DO UPDATE SET
+                    "tokens" = ${refilled} - CASE WHEN ${refilled} >= 1 THEN 1 ELSE 0 END,
+                    "allowed" = ${refilled} >= 1,
+                    "updatedAt" = now()
+                RETURNING "tokens", "allowed"
+            `
+
+            return { allowed: row.allowed, tokens: row.tokens }
+        }
+    }
+}
@@ -0,0 +1,170 @@
+import net from "net"
+import tls from "tls"
+import type { RateLimitStore } from "./types"
+
+// Refill and take a token atomically, using the server's clock so replicas agree on time
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call("TIME")
+local now = tonumber(time[1]) + tonumber(time[2]) / 1000000
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity / rate * 1000))
+return { allowed, tostring(tokens) }
+`
+
+// A command (including connecting, for the first one) that takes longer fails, and the request is let through
+const COMMAND_TIMEOUT_MS = 1000
+
+type Reply = string | number | null | Reply[]
+
+// Parses one RESP2 reply starting at `offset`, or returns null if the buffer doesn't hold all of it yet
+function parseReply(buffer: Buffer, offset: number): { value: Reply | Error, offset: number } | null {
+    const lineEnd = buffer.indexOf("\r\n", offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(buffer[offset])
+    const line = buffer.toString("utf8", offset + 1, lineEnd)
+    const next = lineEnd + 2
+
+    switch (type) {
+        case "+":
+            return { value: line, offset: next }
+        case "-":
+            return { value: new Error(line), offset: next }
+        case ":":
+            return { value: Number(line), offset: next }
+        case "$": {
+            const length = Number(line)
+            if (length === -1) return { value: null, offset: next }
+            if (buffer.length < next + length + 2) return null
+            return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 }
+        }
+        case "*": {
+            const count = Number(line)
+            if (count === -1) return { value: null, offset: next }
+            const items: Reply[] = []
+            let error: Error | null = null
+            let position = next
+            // An error element fails the whole reply, but only after the rest of the array has been read, so the
+            // next reply starts where it should
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position)
+                if (!item) return null
+                if (item.value instanceof Error) error ??= item.value
+                else items.push(item.value)
+                position = item.offset
+            }
+            return { value: error ?? items, offset: position }
+        }
+        default:
+            throw new Error(`Unexpected Redis reply type "${type}"`)
+    }
+}
+
+function encodeCommand(args: (string | number)[]) {
+    return `*${args.length}\r\n` + args.map(arg => {
+        const value = String(arg)
+        return `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+    }).join("")
+}
+
+// Just enough of a Redis client to run the token-bucket script over one pipelined connection.
+// Works with any server that speaks RESP (Redis, Valkey, KeyDB, Dragonfly).
+function createRedisConnection(redisUrl: string) {
+    const url = new URL(redisUrl)
+    let socket: net.Socket | null = null
+    let buffer = Buffer.alloc(0)
+    let pending: { resolve: (value: Reply) => void, reject: (error: Error) => void }[] = []
+
+    function fail(error: Error) {
+        socket?.destroy()
+        socket = null
+        buffer = Buffer.alloc(0)
+        const waiting = pending
+        pending = []
+        waiting.forEach(request => request.reject(error))
+    }
+
+    function connect() {
+        const port = Number(url.port) || 6379
+        const connection = url.protocol === "rediss:"
+            ? tls.connect({ host: url.hostname, port, servername: url.hostname })
+            : net.connect({ host: url.hostname, port })
+        connection.setNoDelay(true)
+
+        connection.on("data", chunk => {
+            buffer = Buffer.concat([buffer, chunk])
+            let parsed
+            while (pending.length > 0 && (parsed = parseReply(buffer, 0))) {
+                buffer = buffer.subarray(parsed.offset)
+                const request = pending.shift()!
+                if (parsed.value instanceof Error) request.reject(parsed.value)
+                else request.resolve(parsed.value)
+            }
+        })
+        // A connection given up on may close after its replacement has opened
+        connection.on("error", error => {
+            if (socket === connection) fail(error)
+        })
+        connection.on("close", () => {
+            if (socket === connection) fail(new Error("Redis connection closed"))
+        })
+
+        socket = connection
+
+        // Queued ahead of the first command; replies arrive in order
+        if (url.password) {
+            const auth = url.username ? ["AUTH", decodeURIComponent(url.username), decodeURIComponent(url.password)] : ["AUTH", decodeURIComponent(url.password)]
+            send(auth).catch(() => { })
+        }
+        const database = Number(url.pathname.slice(1))
+        if (database) send(["SELECT", database]).catch(() => { })
+    }
+
+    function send(args: (string | number)[]) {
+        return new Promise<Reply>((resolve, reject) => {
+            if (!socket) connect()
+            // Replies are matched to commands by order, so a reply that never comes means starting over
+            const timer = setTimeout(() => fail(new Error(`Redis didn't reply within ${COMMAND_TIMEOUT_MS} ms`)), COMMAND_TIMEOUT_MS)
+            pending.push({
+                resolve: value => {
+                    clearTimeout(timer)
+                    resolve(value)
+                },
+                reject: error => {
+                    clearTimeout(timer)
+                    reject(error)
+                }
+            })
+            socket!.write(encodeCommand(args))
+        })
+    }
+
+    return { send }
+}
+
+// Buckets in Redis, shared by every replica. Keys expire once their bucket would be full again.
+export function createRedisStore(redisUrl: string): RateLimitStore {
+    const connection = createRedisConnection(redisUrl)
+
+    return {
+        name: "redis",
+
+        async consume(key, capacity, refillPerSecond) {
+            const reply = await connection.send(["EVAL", TOKEN_BUCKET_SCRIPT, 1, `ratelimit:${key}`, capacity, refillPerSecond])
+            if (!Array.isArray(reply)) throw new Error("Unexpected reply from the rate-limit script")
+
+            return { allowed: reply[0] === 1, tokens: Number(reply[1]) }
+        }
+    }
+}
@@ -0,0 +1,13 @@
+export type RateLimitStoreName = "memory" | "postgres" | "redis"
+
+export interface BucketResult {
+    allowed: boolean
+    // Tokens left after this request
+    tokens: number
+}
+
+// Token buckets hold up to `capacity` tokens and refill continuously; each request takes one
+export interface RateLimitStore {
+    name: RateLimitStoreName
+    consume(key: string, capacity: number, refillPerSecond: number): Promise<BucketResult>
+}
@@ -0,0 +1,24 @@
+import type { Rating, RatingEngine, RatingSettings } from "./types"
+
+// Classic Elo with a fixed K-factor, clamped at 0
+function expectedScore(a: Rating, b: Rating) {
+    return 1 / (1 + Math.pow(10, (b.rating - a.rating) / 400))
+}
+
+export function createEloEngine(settings: RatingSettings): RatingEngine {
+    return {
+        name: "elo",
+        initial: () => ({ rating: settings.initialRating, deviation: null, volatility: null }),
+        expectedScore,
+        rate(winner, loser, outcome = "win") {
+            const expectedWinner = expectedScore(winner, loser)
+            const expectedLoser = 1 - expectedWinner
+            const score = outcome === "draw" ? 0.5 : 1
+
+            return {
+                winner: { rating: Math.max(0, winner.rating + settings.kFactor * (score - expectedWinner)), deviation: null, volatility: null },
+                loser: { rating: Math.max(0, loser.rating + settings.kFactor * (1 - score - expectedLoser)), deviation: null, volatility: null },
+            }
+        },
+    }
+}
@@ -0,0 +1,96 @@
+import type { Rating, RatingEngine, RatingSettings } from "./types"
+
+// Glicko-2 (Glickman, 2012), treating every vote as its own rating period.
+// Ratings are centred on the configured initial rating instead of the usual 1500.
+
+const SCALE = 173.7178
+const INITIAL_DEVIATION = 350
+const INITIAL_VOLATILITY = 0.06
+const TAU = 0.5 // Constrains how quickly volatility can change
+const CONVERGENCE = 0.000001
+
+function g(phi: number) {
+    return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI))
+}
+
+function nextVolatility(phi: number, sigma: number, delta: number, v: number) {
+    const a = Math.log(sigma * sigma)
+    const f = (x: number) => {
+        const ex = Math.exp(x)
+        const d = phi * phi + v + ex
+        return ex * (delta * delta - d) / (2 * d * d) - (x - a) / (TAU * TAU)
+    }
+
+    let A = a
+    let B: number
+    if (delta * delta > phi * phi + v) {
+        B = Math.log(delta * delta - phi * phi - v)
+    } else {
+        let k = 1
+        while (f(a - k * TAU) < 0) k++
+        B = a - k * TAU
+    }
+
+    let fA = f(A)
+    let fB = f(B)
+    while (Math.abs(B - A) > CONVERGENCE) {
+        const C = A + (A - B) * fA / (fB - fA)
+        const fC = f(C)
+        if (fC * fB <= 0) {
+            A = B
+            fA = fB
+        } else {
+            fA = fA / 2
+        }
+        B = C
+        fB = fC
+    }
+
+    return Math.exp(A / 2)
+}
+
+export function createGlicko2Engine(settings: RatingSettings): RatingEngine {
+    const center = settings.initialRating
+
+    function update(player: Rating, opponent: Rating, score: number): Rating {
+        const mu = (player.rating - center) / SCALE
+        const phi = (player.deviation ?? INITIAL_DEVIATION) / SCALE
+        const sigma = player.volatility ?? INITIAL_VOLATILITY
+        const opponentMu = (opponent.rating - center) / SCALE
+        const opponentPhi = (opponent.deviation ?? INITIAL_DEVIATION) / SCALE
+
+        const gPhi = g(opponentPhi)
+        const expected = 1 / (1 + Math.exp(-gPhi * (mu - opponentMu)))
+        const v = 1 / (gPhi * gPhi * expected * (1 - expected))
+        const delta = v * gPhi * (score - expected)
+
+        const newSigma = nextVolatility(phi, sigma, delta, v)
+        const phiStar = Math.sqrt(phi * phi + newSigma * newSigma)
+        const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+        const newMu = mu + newPhi * newPhi * gPhi * (score - expected)
+
+        return {
+            rating: newMu * SCALE + center,
+            deviation: Math.min(INITIAL_DEVIATION, newPhi * SCALE),
+            volatility: newSigma,
+        }
+    }
+
+    return {
+        name: "glicko2",
+        initial: () => ({ rating: center, deviation: INITIAL_DEVIATION, volatility: INITIAL_VOLATILITY }),
+        expectedScore(a, b) {
+            // Both players' deviations widen the prediction towards 0.5
+            const phiA = (a.deviation ?? INITIAL_DEVIATION) / SCALE
+            const phiB = (b.deviation ?? INITIAL_DEVIATION) / SCALE
+            return 1 / (1 + Math.exp(-g(Math.sqrt(phiA * phiA + phiB * phiB)) * (a.rating - b.rating) / SCALE))
+        },
+        rate(winner, loser, outcome = "win") {
+            const score = outcome === "draw" ? 0.5 : 1
+            return {
+                winner: update(winner, loser, score),
+                loser: update(loser, winner, 1 - score),
+            }
+        },
+    }
+}
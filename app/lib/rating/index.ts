@@ -0,0 +1,77 @@
+// Rating settings shared by the vote action, the seed scripts and the replay command.
+// All values can be changed through the environment and applied retroactively with `npm run replay`.
+
+import { createEloEngine } from "./elo"
+import { createGlicko2Engine } from "./glicko2"
+import { createTrueSkillEngine } from "./trueskill"
+import type { Rating, RatingEngine, RatingEngineName, RatingOutcome, RatingSettings } from "./types"
+
+export type { Rating, RatingEngine, RatingEngineName, RatingOutcome, RatingSettings }
+
+export const ratingEngineNames: RatingEngineName[] = ["elo", "glicko2", "trueskill"]
+
+export function isRatingEngineName(value: unknown): value is RatingEngineName {
+    return ratingEngineNames.includes(value as RatingEngineName)
+}
+
+function numberFromEnv(name: string, fallback: number) {
+    const value = Number(process.env[name])
+    return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export const ratingSettings: RatingSettings = {
+    engine: isRatingEngineName(process.env.RATING_ENGINE) ? process.env.RATING_ENGINE : "elo",
+    kFactor: numberFromEnv("ELO_K_FACTOR", 32),
+    initialRating: numberFromEnv("ELO_INITIAL_RATING", 1200),
+}
+
+export function createRatingEngine(settings: RatingSettings = ratingSettings): RatingEngine {
+    switch (settings.engine) {
+        case "glicko2":
+            return createGlicko2Engine(settings)
+        case "trueskill":
+            return createTrueSkillEngine(settings)
+        default:
+            return createEloEngine(settings)
+    }
+}
+
+export const ratingEngine = createRatingEngine()
+
+// Reads an image's stored rating columns, filling uncertainty the engine needs but the row lacks
+// (e.g. after switching from Elo without replaying)
+export function toRating(
+    image: { elo: number, deviation: number | null, volatility: number | null },
+    engine: RatingEngine = ratingEngine
+): Rating {
+    const initial = engine.initial()
+    return {
+        rating: image.elo,
+        deviation: image.deviation ?? initial.deviation,
+        volatility: image.volatility ?? initial.volatility,
+    }
+}
+
+function lerp(from: number | null, to: number | null, weight: number) {
+    return from === null || to === null ? to : from + (to - from) * weight
+}
+
+// Rates a vote that only partly counts: each rating moves `weight` of the way to its full result,
+// so a weight of 0 leaves both images untouched (see vote quality analysis)
+export function rateWeighted(
+    winner: Rating,
+    loser: Rating,
+    weight: number,
+    outcome: RatingOutcome = "win",
+    engine: RatingEngine = ratingEngine
+) {
+    const result = engine.rate(winner, loser, outcome)
+    if (weight >= 1) return result
+
+    const blend = (before: Rating, after: Rating): Rating => ({
+        rating: lerp(before.rating, after.rating, weight)!,
+        deviation: lerp(before.deviation, after.deviation, weight),
+        volatility: lerp(before.volatility, after.volatility, weight)
+    })
+    return { winner: blend(winner, result.winner), loser: blend(loser, result.loser) }
+}
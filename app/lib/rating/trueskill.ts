@@ -0,0 +1,106 @@
+import type { RatingEngine, RatingSettings } from "./types"
+
+// Two-player TrueSkill (Herbrich et al., 2006) with draws.
+// The usual mu = 25 / sigma = 25/3 parameters are scaled so mu starts at the configured initial rating.
+
+// Share of votes expected to be draws between equally rated images; sets the draw margin
+const DRAW_PROBABILITY = 0.1
+
+function pdf(x: number) {
+    return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI)
+}
+
+// Complementary error function, Numerical Recipes approximation (relative error < 1.2e-7)
+function erfc(x: number) {
+    const z = Math.abs(x)
+    const t = 1 / (1 + z / 2)
+    const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+        t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+        t * (-0.82215223 + t * 0.17087277)))))))))
+    return x >= 0 ? r : 2 - r
+}
+
+function cdf(x: number) {
+    return erfc(-x / Math.SQRT2) / 2
+}
+
+// Inverse of cdf by bisection; only used once per engine for the draw margin
+function inverseCdf(p: number) {
+    let low = -10
+    let high = 10
+    while (high - low > 1e-9) {
+        const mid = (low + high) / 2
+        if (cdf(mid) < p) low = mid
+        else high = mid
+    }
+    return (low + high) / 2
+}
+
+// Mean and variance correction factors for a win, given the normalised rating difference t and draw margin e
+function vWin(t: number, e: number) {
+    const denominator = cdf(t - e)
+    return denominator < 2.222758749e-162 ? -(t - e) : pdf(t - e) / denominator
+}
+
+function wWin(t: number, e: number) {
+    const v = vWin(t, e)
+    return v * (v + t - e)
+}
+
+// The same factors for a draw
+function vDraw(t: number, e: number) {
+    const a = e - Math.abs(t)
+    const b = -e - Math.abs(t)
+    const denominator = cdf(a) - cdf(b)
+    const v = denominator < 2.222758749e-162 ? a : (pdf(b) - pdf(a)) / denominator
+    return t < 0 ? -v : v
+}
+
+function wDraw(t: number, e: number) {
+    const a = e - Math.abs(t)
+    const b = -e - Math.abs(t)
+    const denominator = cdf(a) - cdf(b)
+    if (denominator < 2.222758749e-162) return 1
+    const v = vDraw(Math.abs(t), e)
+    return v * v + (a * pdf(a) - b * pdf(b)) / denominator
+}
+
+export function createTrueSkillEngine(settings: RatingSettings): RatingEngine {
+    const scale = settings.initialRating / 25
+    const initialSigma = 25 / 3 * scale
+    const beta = initialSigma / 2
+    const tau = initialSigma / 100
+    const drawMargin = inverseCdf((DRAW_PROBABILITY + 1) / 2) * Math.SQRT2 * beta
+
+    return {
+        name: "trueskill",
+        initial: () => ({ rating: settings.initialRating, deviation: initialSigma, volatility: null }),
+        expectedScore(a, b) {
+            const c = Math.sqrt(2 * beta * beta + (a.deviation ?? initialSigma) ** 2 + (b.deviation ?? initialSigma) ** 2)
+            return cdf((a.rating - b.rating) / c)
+        },
+        rate(winner, loser, outcome = "win") {
+            const winnerVariance = (winner.deviation ?? initialSigma) ** 2 + tau * tau
+            const loserVariance = (loser.deviation ?? initialSigma) ** 2 + tau * tau
+            const c = Math.sqrt(2 * beta * beta + winnerVariance + loserVariance)
+
+            const t = (winner.rating - loser.rating) / c
+            const e = drawMargin / c
+            const v = outcome === "draw" ? vDraw(t, e) : vWin(t, e)
+            const w = outcome === "draw" ? wDraw(t, e) : wWin(t, e)
+
+            return {
+                winner: {
+                    rating: winner.rating + winnerVariance / c * v,
+                    deviation: Math.sqrt(winnerVariance * (1 - winnerVariance / (c * c) * w)),
+                    volatility: null,
+                },
+                loser: {
+                    rating: loser.rating - loserVariance / c * v,
+                    deviation: Math.sqrt(loserVariance * (1 - loserVariance / (c * c) * w)),
+                    volatility: null,
+                },
+            }
+        },
+    }
+}
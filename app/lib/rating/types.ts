@@ -0,0 +1,26 @@
+export type RatingEngineName = "elo" | "glicko2" | "trueskill"
+
+// Rating state of one image. Engines without an uncertainty model leave deviation and volatility null.
+export interface Rating {
+    rating: number
+    deviation: number | null
+    volatility: number | null
+}
+
+// A draw scores half a win for each side
+export type RatingOutcome = "win" | "draw"
+
+export interface RatingEngine {
+    name: RatingEngineName
+    initial(): Rating
+    // Probability that `a` beats `b`
+    expectedScore(a: Rating, b: Rating): number
+    // For a draw, `winner` and `loser` are simply the two images
+    rate(winner: Rating, loser: Rating, outcome?: RatingOutcome): { winner: Rating, loser: Rating }
+}
+
+export interface RatingSettings {
+    engine: RatingEngineName
+    kFactor: number
+    initialRating: number
+}
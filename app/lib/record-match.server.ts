@@ -0,0 +1,89 @@
+import type { MatchOutcome, MatchSide, PrismaClient } from "@prisma/client"
+import { notifyVoteRecorded } from "./live-updates/notify"
+import { rateWeighted, toRating, type Rating, type RatingEngine } from "./rating"
+import { currentRatingEngine } from "./replay.server"
+
+export interface MatchInput {
+    // For draws and skips, the image shown on the left and the one on the right
+    winnerId: number
+    loserId: number
+    outcome: MatchOutcome
+    weight: number
+    sessionId: string
+    ticketId?: string
+    winnerSide?: MatchSide | null
+    decisionMs?: number
+    clientHash?: string
+}
+
+export interface MatchResult {
+    winner: { id: number } & Rating
+    loser: { id: number } & Rating
+}
+
+type LockedImage = { id: number, collectionId: number, elo: number, deviation: number | null, volatility: number | null }
+
+// Rates one match and records it atomically. Both images are locked before their ratings are read, so concurrent
+// votes on the same image wait for each other instead of overwriting each other's update. Locks are taken in id
+// order so two votes on the same pair can't deadlock. Returns null when either image is missing or hidden.
+// Rates with the settings of the latest replay unless given an engine.
+export async function recordMatch(prisma: PrismaClient, match: MatchInput, ratingEngine?: RatingEngine): Promise<MatchResult | null> {
+    const recorded = await prisma.$transaction(async (tx) => {
+        const images = await tx.$queryRaw<LockedImage[]>`
+            SELECT "id", "collectionId", "elo", "deviation", "volatility" FROM "Image"
+            WHERE "id" IN (${match.winnerId}, ${match.loserId}) AND "hiddenAt" IS NULL
+            ORDER BY "id"
+            FOR UPDATE`
+
+        const winner = images.find(image => image.id === match.winnerId)
+        const loser = images.find(image => image.id === match.loserId)
+        if (!winner || !loser) return null
+
+        // Read after the locks, which a replay holds until it has committed its settings
+        const engine = ratingEngine ?? await currentRatingEngine(tx)
+
+        // Skips leave both ratings as they are; flagged sessions' votes count for less
+        const result = match.outcome === "SKIP"
+            ? { winner: toRating(winner, engine), loser: toRating(loser, engine) }
+            : rateWeighted(toRating(winner, engine), toRating(loser, engine), match.weight, match.outcome === "DRAW" ? "draw" : "win", engine)
+
+        if (match.outcome !== "SKIP") {
+            const matchCount = { increment: match.weight > 0 ? 1 : 0 }
+            for (const [id, rating] of [[winner.id, result.winner], [loser.id, result.loser]] as const) {
+                await tx.image.update({
+                    where: { id },
+                    data: { elo: rating.rating, deviation: rating.deviation, volatility: rating.volatility, matchCount }
+                })
+            }
+        }
+
+        await tx.match.create({
+            data: {
+                winnerId: winner.id,
+                loserId: loser.id,
+                outcome: match.outcome,
+                winnerEloBefore: winner.elo,
+                winnerEloAfter: result.winner.rating,
+                loserEloBefore: loser.elo,
+                loserEloAfter: result.loser.rating,
+                sessionId: match.sessionId,
+                ticketId: match.ticketId,
+                winnerSide: match.winnerSide,
+                decisionMs: match.decisionMs,
+                clientHash: match.clientHash,
+                weight: match.weight
+            }
+        })
+
+        return {
+            collectionId: winner.collectionId,
+            winner: { id: winner.id, ...result.winner },
+            loser: { id: loser.id, ...result.loser }
+        }
+    }, { maxWait: 10_000, timeout: 10_000 })
+    if (!recorded) return null
+
+    // Announced once committed, so live leaderboards read the new ratings
+    if (match.outcome !== "SKIP") notifyVoteRecorded(prisma, recorded.collectionId)
+    return { winner: recorded.winner, loser: recorded.loser }
+}
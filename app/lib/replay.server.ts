@@ -0,0 +1,140 @@
+import { Prisma, type PrismaClient } from "@prisma/client"
+import { notifyLeaderboardChanged } from "./live-updates/notify"
+import { createRatingEngine, isRatingEngineName, rateWeighted, ratingSettings, type Rating, type RatingSettings } from "./rating"
+
+export interface ReplayOptions extends RatingSettings {
+    dryRun: boolean
+}
+
+export interface RatingChange {
+    id: number
+    name: string
+    before: number
+    after: number
+}
+
+export interface ReplayResult {
+    matchCount: number
+    changes: RatingChange[]
+}
+
+const MATCH_BATCH_SIZE = 5000
+const WRITE_BATCH_SIZE = 1000
+
+function chunk<T>(items: T[], size: number) {
+    const chunks: T[][] = []
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size))
+    }
+    return chunks
+}
+
+// The settings new votes are rated with: the latest replay's, or the environment's until ratings are first replayed
+export async function currentRatingSettings(prisma: PrismaClient | Prisma.TransactionClient): Promise<RatingSettings> {
+    const latest = await prisma.ratingReplay.findFirst({
+        select: { engine: true, kFactor: true, initialRating: true },
+        orderBy: { id: "desc" }
+    })
+    if (!latest || !isRatingEngineName(latest.engine)) return ratingSettings
+    return { engine: latest.engine, kFactor: latest.kFactor, initialRating: latest.initialRating }
+}
+
+export async function currentRatingEngine(prisma: PrismaClient | Prisma.TransactionClient) {
+    return createRatingEngine(await currentRatingSettings(prisma))
+}
+
+// Resets every image to the initial rating and replays the match history in the order it was recorded.
+// The ratings each match was cast at are kept; the replayed ones are stored next to them, so the history stays
+// consistent with the new ratings. The settings are recorded too, and new votes carry on with them.
+export async function replayRatings(prisma: PrismaClient, options: ReplayOptions): Promise<ReplayResult> {
+    const engine = createRatingEngine(options)
+
+    const result = await prisma.$transaction(async (tx) => {
+        if (!options.dryRun) {
+            // Block concurrent votes while the ratings are rebuilt; reads keep working
+            await tx.$executeRaw`LOCK TABLE "Image", "Match" IN SHARE ROW EXCLUSIVE MODE`
+        }
+
+        const images = await tx.image.findMany({ select: { id: true, collectionId: true, name: true, elo: true } })
+        const ratings = new Map<number, Rating>(images.map(image => [image.id, engine.initial()]))
+        const matchCounts = new Map<number, number>()
+        const matchUpdates: { id: number, winnerBefore: number, winnerAfter: number, loserBefore: number, loserAfter: number }[] = []
+
+        let cursor: number | undefined
+        while (true) {
+            const matches = await tx.match.findMany({
+                select: { id: true, winnerId: true, loserId: true, outcome: true, weight: true },
+                orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+                take: MATCH_BATCH_SIZE,
+                ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 })
+            })
+
+            for (const match of matches) {
+                const winnerBefore = ratings.get(match.winnerId)!
+                const loserBefore = ratings.get(match.loserId)!
+                // Votes from down-weighted or quarantined sessions move ratings less, or not at all; skips never do
+                const result = match.outcome === "SKIP"
+                    ? { winner: winnerBefore, loser: loserBefore }
+                    : rateWeighted(winnerBefore, loserBefore, match.weight, match.outcome === "DRAW" ? "draw" : "win", engine)
+
+                ratings.set(match.winnerId, result.winner)
+                ratings.set(match.loserId, result.loser)
+                if (match.outcome !== "SKIP" && match.weight > 0) {
+                    matchCounts.set(match.winnerId, (matchCounts.get(match.winnerId) ?? 0) + 1)
+                    matchCounts.set(match.loserId, (matchCounts.get(match.loserId) ?? 0) + 1)
+                }
+                matchUpdates.push({
+                    id: match.id,
+                    winnerBefore: winnerBefore.rating,
+                    winnerAfter: result.winner.rating,
+                    loserBefore: loserBefore.rating,
+                    loserAfter: result.loser.rating
+                })
+            }
+
+            if (matches.length < MATCH_BATCH_SIZE) break
+            cursor = matches[matches.length - 1].id
+        }
+
+        const changes = images.map(image => ({
+            id: image.id,
+            name: image.name,
+            before: image.elo,
+            after: ratings.get(image.id)!.rating
+        }))
+
+        if (!options.dryRun) {
+            for (const batch of chunk(images, WRITE_BATCH_SIZE)) {
+                const values = Prisma.join(batch.map(image => {
+                    const rating = ratings.get(image.id)!
+                    return Prisma.sql`(${image.id}::int, ${rating.rating}::float8, ${rating.deviation}::float8, ${rating.volatility}::float8, ${matchCounts.get(image.id) ?? 0}::int)`
+                }))
+                await tx.$executeRaw`
+                    UPDATE "Image" AS i SET
+                        "elo" = v.elo, "deviation" = v.deviation, "volatility" = v.volatility,
+                        "matchCount" = v.match_count, "updatedAt" = NOW()
+                    FROM (VALUES ${values}) AS v(id, elo, deviation, volatility, match_count)
+                    WHERE i.id = v.id`
+            }
+
+            for (const batch of chunk(matchUpdates, WRITE_BATCH_SIZE)) {
+                const values = Prisma.join(batch.map(update => Prisma.sql`(${update.id}::int, ${update.winnerBefore}::float8, ${update.winnerAfter}::float8, ${update.loserBefore}::float8, ${update.loserAfter}::float8)`))
+                await tx.$executeRaw`
+                    UPDATE "Match" AS m SET
+                        "winnerReplayBefore" = v.wb, "winnerReplayAfter" = v.wa,
+                        "loserReplayBefore" = v.lb, "loserReplayAfter" = v.la
+                    FROM (VALUES ${values}) AS v(id, wb, wa, lb, la)
+                    WHERE m.id = v.id`
+            }
+
+            await tx.ratingReplay.create({
+                data: { engine: options.engine, kFactor: options.kFactor, initialRating: options.initialRating, matchCount: matchUpdates.length }
+            })
+        }
+
+        return { matchCount: matchUpdates.length, changes, collectionIds: images.map(image => image.collectionId) }
+    }, { timeout: 10 * 60 * 1000 })
+
+    if (!options.dryRun) await notifyLeaderboardChanged(prisma, result.collectionIds)
+    return { matchCount: result.matchCount, changes: result.changes }
+}
@@ -0,0 +1,127 @@
+import type { PrismaClient } from "@prisma/client"
+
+// Point-in-time copies of each collection's leaderboard, so rankings can be compared over time
+
+export interface SnapshotOptions {
+    collectionId?: number
+    label?: string
+    // Skip collections that already have a snapshot younger than this, so a frequent cron job takes one per interval
+    minIntervalMs?: number
+}
+
+// Records every visible image's rank and rating, in one statement so the ranks are consistent with each other
+async function takeSnapshot(prisma: PrismaClient, collectionId: number, label: string | undefined) {
+    return prisma.$transaction(async tx => {
+        const snapshot = await tx.snapshot.create({ data: { collectionId, label } })
+        const imageCount = await tx.$executeRaw`
+            INSERT INTO "SnapshotEntry" ("snapshotId", "imageId", "rank", "rating", "deviation", "matchCount")
+            SELECT ${snapshot.id}, "id", RANK() OVER (ORDER BY "elo" DESC), "elo", "deviation", "matchCount"
+            FROM "Image"
+            WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL`
+        return { ...snapshot, imageCount }
+    })
+}
+
+// Snapshots every collection, or just the given one. Collections skipped because of minIntervalMs come back with a null snapshot.
+export async function takeSnapshots(prisma: PrismaClient, options: SnapshotOptions = {}) {
+    const collections = await prisma.collection.findMany({
+        where: options.collectionId === undefined ? {} : { id: options.collectionId },
+        select: { id: true, slug: true, name: true, snapshots: { select: { createdAt: true }, orderBy: { createdAt: "desc" }, take: 1 } },
+        orderBy: { id: "asc" }
+    })
+
+    const results = []
+    for (const { snapshots: [latest], ...collection } of collections) {
+        const due = options.minIntervalMs === undefined || !latest || Date.now() - latest.createdAt.getTime() >= options.minIntervalMs
+        results.push({ collection, snapshot: due ? await takeSnapshot(prisma, collection.id, options.label) : null })
+    }
+    return results
+}
+
+// Newest first
+export async function listSnapshots(prisma: PrismaClient, options: { collectionId?: number, limit?: number } = {}) {
+    const snapshots = await prisma.snapshot.findMany({
+        where: options.collectionId === undefined ? {} : { collectionId: options.collectionId },
+        select: {
+            id: true,
+            label: true,
+            createdAt: true,
+            collection: { select: { slug: true, name: true } },
+            _count: { select: { entries: true } }
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: options.limit
+    })
+    return snapshots.map(({ _count, ...snapshot }) => ({ ...snapshot, imageCount: _count.entries }))
+}
+
+export async function deleteSnapshot(prisma: PrismaClient, id: number) {
+    await prisma.snapshot.deleteMany({ where: { id } })
+}
+
+// The most recent snapshot of a collection and the ranks it recorded for the given images.
+// Images missing from it were added (or restored) since; null when the collection has no snapshots yet.
+export async function getPreviousRanks(prisma: PrismaClient, collectionId: number, imageIds: number[]) {
+    const snapshot = await prisma.snapshot.findFirst({
+        where: { collectionId },
+        select: { id: true, createdAt: true },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }]
+    })
+    if (!snapshot) return null
+
+    const entries = await prisma.snapshotEntry.findMany({
+        where: { snapshotId: snapshot.id, imageId: { in: imageIds } },
+        select: { imageId: true, rank: true }
+    })
+    return { since: snapshot.createdAt, ranks: new Map(entries.map(entry => [entry.imageId, entry.rank])) }
+}
+
+export interface SnapshotMover {
+    id: number
+    name: string
+    url: string
+    rank: number
+    rating: number
+    // Null for images that weren't in the earlier snapshot
+    previousRank: number | null
+    previousRating: number | null
+}
+
+// Risers and fallers between two snapshots of the same collection, biggest rank changes first,
+// and the images that entered the leaderboard in between, best first
+export async function compareSnapshots(prisma: PrismaClient, fromId: number, toId: number, limit: number) {
+    const entries = await prisma.snapshotEntry.findMany({
+        where: { snapshotId: { in: [fromId, toId] } },
+        select: { snapshotId: true, imageId: true, rank: true, rating: true }
+    })
+
+    const previous = new Map(entries.filter(entry => entry.snapshotId === fromId).map(entry => [entry.imageId, entry]))
+    const current = entries.filter(entry => entry.snapshotId === toId)
+    const change = (entry: typeof current[number]) => previous.get(entry.imageId)!.rank - entry.rank
+
+    const kept = current.filter(entry => previous.has(entry.imageId))
+    const risers = kept.filter(entry => change(entry) > 0).sort((a, b) => change(b) - change(a) || a.rank - b.rank).slice(0, limit)
+    const fallers = kept.filter(entry => change(entry) < 0).sort((a, b) => change(a) - change(b) || a.rank - b.rank).slice(0, limit)
+    const newEntries = current.filter(entry => !previous.has(entry.imageId)).sort((a, b) => a.rank - b.rank).slice(0, limit)
+
+    const images = await prisma.image.findMany({
+        where: { id: { in: [...risers, ...fallers, ...newEntries].map(entry => entry.imageId) } },
+        select: { id: true, name: true, url: true }
+    })
+    const imagesById = new Map(images.map(image => [image.id, image]))
+
+    const movers = (list: typeof current): SnapshotMover[] => list.map(entry => ({
+        ...imagesById.get(entry.imageId)!,
+        rank: entry.rank,
+        rating: entry.rating,
+        previousRank: previous.get(entry.imageId)?.rank ?? null,
+        previousRating: previous.get(entry.imageId)?.rating ?? null
+    }))
+
+    return {
+        risers: movers(risers),
+        fallers: movers(fallers),
+        newEntries: movers(newEntries),
+        unchanged: kept.filter(entry => change(entry) === 0).length
+    }
+}
@@ -0,0 +1,207 @@
+import { db } from "~/db.server"
+import { visibleImage } from "~/lib/images.server"
+
+// Days of history in the votes-over-time chart
+const VOTE_HISTORY_DAYS = 30
+const RATING_BUCKETS = 20
+// Upper bounds of the vote-count buckets; the last bucket is open-ended
+const VOTE_COUNT_BUCKETS = [0, 4, 9, 19, 49, 99]
+const NEVER_COMPARED_LIMIT = 20
+// How far back the convergence check looks, in votes
+const CONVERGENCE_WINDOWS = [100, 500, 1000]
+const TOP_SIZE = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface HistogramBucket {
+    label: string
+    count: number
+}
+
+// Equal-width buckets of the visible images' ratings, between the lowest and highest one
+async function ratingHistogram(collectionId: number, bucketCount: number): Promise<HistogramBucket[]> {
+    const [range] = await db.$queryRaw<{ min: number | null, max: number | null }[]>`
+        SELECT MIN("elo") AS min, MAX("elo") AS max FROM "Image"
+        WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL`
+    if (range.min === null || range.max === null) return []
+
+    const min = range.min
+    const width = (range.max - min) / bucketCount || 1
+    const rows = await db.$queryRaw<{ bucket: number, count: bigint }[]>`
+        SELECT LEAST(${bucketCount - 1}::int, FLOOR(("elo" - ${min}::float8) / ${width}::float8)::int) AS bucket, COUNT(*) AS count
+        FROM "Image"
+        WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL
+        GROUP BY 1`
+    const counts = new Map(rows.map(row => [row.bucket, Number(row.count)]))
+
+    // Enough decimals to tell the buckets apart on small rating scales such as TrueSkill's
+    const digits = width >= 1 ? 0 : width >= 0.1 ? 1 : 2
+    return Array.from({ length: bucketCount }, (_, i) => ({ label: (min + i * width).toFixed(digits), count: counts.get(i) ?? 0 }))
+}
+
+async function voteCountHistogram(collectionId: number): Promise<HistogramBucket[]> {
+    // Bucket i holds the counts from the (i - 1)th upper bound + 1 up to the ith; width_bucket takes the lower bounds
+    const lowerBounds = VOTE_COUNT_BUCKETS.map(upper => upper + 1)
+    const rows = await db.$queryRaw<{ bucket: number, count: bigint }[]>`
+        SELECT width_bucket("matchCount", ${lowerBounds}::int[]) AS bucket, COUNT(*) AS count
+        FROM "Image"
+        WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL
+        GROUP BY 1`
+    const counts = new Map(rows.map(row => [row.bucket, Number(row.count)]))
+
+    return [...VOTE_COUNT_BUCKETS, Infinity].map((upper, i) => {
+        const lower = i === 0 ? 0 : VOTE_COUNT_BUCKETS[i - 1] + 1
+        return {
+            label: upper === Infinity ? `${lower}+` : lower === upper ? String(lower) : `${lower}–${upper}`,
+            count: counts.get(i) ?? 0
+        }
+    })
+}
+
+export interface ConvergenceWindow {
+    // Votes actually looked back over; fewer than the window when the collection doesn't have that many
+    votes: number
+    // How many of today's top 10 were already in the top 10 that many votes ago
+    topOverlap: number
+    // Average and largest rank movement of today's top 10 over the window
+    meanRankChange: number
+    maxRankChange: number
+    leaderChanged: boolean
+}
+
+// How much the top of the leaderboard moved over the last N votes. Ratings N votes ago are rebuilt from the
+// "before" ratings stored with each vote (as replayed, if the vote has been): walking back from the newest vote, an
+// image's earliest rating in the window is the one it had before it. A top 10 that hardly moves any more suggests the contest has enough votes.
+// Only the images voted on in the window are loaded; the others still have the rating they had then, so how many
+// of them ranked above today's top 10 is counted in the database.
+async function getConvergence(collectionId: number): Promise<ConvergenceWindow[]> {
+    const largest = CONVERGENCE_WINDOWS[CONVERGENCE_WINDOWS.length - 1]
+    const [top, matches] = await Promise.all([
+        db.image.findMany({
+            where: { collectionId, ...visibleImage },
+            select: { id: true, elo: true },
+            orderBy: [{ elo: "desc" }, { id: "asc" }],
+            take: TOP_SIZE
+        }),
+        db.match.findMany({
+            where: { winner: { collectionId }, outcome: { not: "SKIP" } },
+            select: { winnerId: true, loserId: true, winnerEloBefore: true, loserEloBefore: true, winnerReplayBefore: true, loserReplayBefore: true },
+            orderBy: { id: "desc" },
+            take: largest
+        })
+    ])
+
+    // Hidden images aren't ranked, so their ratings don't matter here
+    const voted = await db.image.findMany({
+        where: { id: { in: [...new Set(matches.flatMap(match => [match.winnerId, match.loserId]))] }, collectionId, ...visibleImage },
+        select: { id: true, elo: true }
+    })
+    const ratings = new Map(voted.map(image => [image.id, image.elo]))
+
+    // The top 10's ratings at the start of each window
+    const snapshots: { votes: number, ratings: Map<number, number> }[] = []
+    for (const [i, match] of matches.entries()) {
+        if (ratings.has(match.winnerId)) ratings.set(match.winnerId, match.winnerReplayBefore ?? match.winnerEloBefore)
+        if (ratings.has(match.loserId)) ratings.set(match.loserId, match.loserReplayBefore ?? match.loserEloBefore)
+
+        const votes = i + 1
+        if (!CONVERGENCE_WINDOWS.includes(votes) && votes !== matches.length) continue
+        if (snapshots.some(snapshot => snapshot.votes === votes)) continue
+        snapshots.push({ votes, ratings: new Map(ratings) })
+    }
+    if (snapshots.length === 0 || top.length === 0) return []
+
+    // Ranks order by rating, then id; a top image's rating back then is its current one unless it was voted on
+    const thresholds = snapshots.flatMap(snapshot => top.map(image => ({
+        id: image.id,
+        rating: snapshot.ratings.get(image.id) ?? image.elo
+    })))
+    const untouchedAbove = await db.$queryRaw<{ position: bigint, above: bigint }[]>`
+        SELECT t.position, COUNT(i."id") AS above
+        FROM unnest(${thresholds.map(threshold => threshold.rating)}::float8[], ${thresholds.map(threshold => threshold.id)}::int[])
+            WITH ORDINALITY AS t(rating, id, position)
+        LEFT JOIN "Image" i ON i."collectionId" = ${collectionId} AND i."hiddenAt" IS NULL
+            AND NOT (i."id" = ANY(${voted.map(image => image.id)}::int[]))
+            AND (i."elo" > t.rating OR (i."elo" = t.rating AND i."id" < t.id))
+        GROUP BY t.position`
+    const aboveByPosition = new Map(untouchedAbove.map(row => [Number(row.position) - 1, Number(row.above)]))
+
+    return snapshots.map((snapshot, w) => {
+        const previousRanks = top.map((_, t) => {
+            const { id, rating } = thresholds[w * top.length + t]
+            let rank = 1 + aboveByPosition.get(w * top.length + t)!
+            for (const [otherId, other] of snapshot.ratings) {
+                if (other > rating || (other === rating && otherId < id)) rank++
+            }
+            return rank
+        })
+        // Today's top 10 are ranked 1 to 10 in order
+        const changes = previousRanks.map((rank, t) => Math.abs(rank - (t + 1)))
+        return {
+            votes: snapshot.votes,
+            topOverlap: previousRanks.filter(rank => rank <= TOP_SIZE).length,
+            meanRankChange: changes.reduce((sum, change) => sum + change, 0) / changes.length,
+            maxRankChange: Math.max(0, ...changes),
+            leaderChanged: previousRanks[0] !== 1
+        }
+    })
+}
+
+export async function getPoolStats(collectionId: number) {
+    const now = Date.now()
+    const historyStart = new Date(Math.floor(now / DAY_MS) * DAY_MS - (VOTE_HISTORY_DAYS - 1) * DAY_MS)
+
+    const [[pool], neverCompared, [totals], daily] = await Promise.all([
+        db.$queryRaw<{ images: bigint, neverCompared: bigint }[]>`
+            SELECT COUNT(*) AS images, COUNT(*) FILTER (WHERE "matchCount" = 0) AS "neverCompared"
+            FROM "Image"
+            WHERE "collectionId" = ${collectionId} AND "hiddenAt" IS NULL`,
+        db.image.findMany({
+            where: { collectionId, ...visibleImage, matchCount: 0 },
+            select: { id: true, name: true, url: true },
+            orderBy: { id: "asc" },
+            take: NEVER_COMPARED_LIMIT
+        }),
+        db.$queryRaw<{ votes: bigint, draws: bigint, skips: bigint, sessions: bigint, sessionsToday: bigint, sessionsThisWeek: bigint }[]>`
+            SELECT
+                COUNT(*) FILTER (WHERE m."outcome" <> 'SKIP') AS votes,
+                COUNT(*) FILTER (WHERE m."outcome" = 'DRAW') AS draws,
+                COUNT(*) FILTER (WHERE m."outcome" = 'SKIP') AS skips,
+                COUNT(DISTINCT m."sessionId") AS sessions,
+                COUNT(DISTINCT m."sessionId") FILTER (WHERE m."createdAt" >= ${new Date(now - DAY_MS)}) AS "sessionsToday",
+                COUNT(DISTINCT m."sessionId") FILTER (WHERE m."createdAt" >= ${new Date(now - 7 * DAY_MS)}) AS "sessionsThisWeek"
+            FROM "Match" m
+            JOIN "Image" i ON i."id" = m."winnerId"
+            WHERE i."collectionId" = ${collectionId}`,
+        db.$queryRaw<{ day: Date, votes: bigint }[]>`
+            SELECT date_trunc('day', m."createdAt") AS day, COUNT(*) AS votes
+            FROM "Match" m
+            JOIN "Image" i ON i."id" = m."winnerId"
+            WHERE i."collectionId" = ${collectionId} AND m."outcome" <> 'SKIP' AND m."createdAt" >= ${historyStart}
+            GROUP BY 1`
+    ])
+
+    // One entry per day, including days without votes
+    const votesByDay = new Map(daily.map(row => [row.day.getTime(), Number(row.votes)]))
+    const votesOverTime = Array.from({ length: VOTE_HISTORY_DAYS }, (_, i) => {
+        const day = historyStart.getTime() + i * DAY_MS
+        return { day: new Date(day).toISOString().slice(0, 10), votes: votesByDay.get(day) ?? 0 }
+    })
+
+    return {
+        imageCount: Number(pool.images),
+        votes: Number(totals.votes),
+        draws: Number(totals.draws),
+        skips: Number(totals.skips),
+        sessions: Number(totals.sessions),
+        sessionsToday: Number(totals.sessionsToday),
+        sessionsThisWeek: Number(totals.sessionsThisWeek),
+        votesOverTime,
+        ratingDistribution: await ratingHistogram(collectionId, RATING_BUCKETS),
+        voteCountDistribution: await voteCountHistogram(collectionId),
+        neverComparedCount: Number(pool.neverCompared),
+        neverCompared,
+        convergence: await getConvergence(collectionId),
+        topSize: TOP_SIZE
+    }
+}
@@ -0,0 +1,16 @@
+import path from "path"
+
+const contentTypes: Record<string, string> = {
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".avif": "image/avif",
+    ".bmp": "image/bmp",
+    ".svg": "image/svg+xml"
+}
+
+export function contentTypeFor(key: string) {
+    return contentTypes[path.extname(key).toLowerCase()] || "application/octet-stream"
+}
@@ -0,0 +1,44 @@
+// Where served images live. STORAGE_BACKEND=local (default) reads from IMAGE_ROOT on disk,
+// STORAGE_BACKEND=s3 from an S3-compatible bucket.
+
+import { InvalidKeyError, normalizeKey } from "./keys"
+import { createLocalStorage } from "./local"
+import { createS3Storage, type S3Settings } from "./s3"
+import type { ByteRange, StorageBackend, StorageBackendName, StoredObject } from "./types"
+
+export type { ByteRange, StorageBackend, StorageBackendName, StoredObject }
+export { InvalidKeyError, normalizeKey }
+
+// Applies the key check once, so backends and routes never see an unchecked path
+function contained(backend: StorageBackend): StorageBackend {
+    return {
+        name: backend.name,
+        stat: key => backend.stat(normalizeKey(key)),
+        read: (key, range) => backend.read(normalizeKey(key), range),
+        write: (key, body, contentType) => backend.write(normalizeKey(key), body, contentType),
+        remove: key => backend.remove(normalizeKey(key))
+    }
+}
+
+function s3SettingsFromEnv(): S3Settings {
+    const { S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error("STORAGE_BACKEND=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+    }
+    return {
+        bucket: S3_BUCKET,
+        region: S3_REGION || "us-east-1",
+        endpoint: S3_ENDPOINT || undefined,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY
+    }
+}
+
+// Directory the local backend serves from
+export const imageRoot = process.env.IMAGE_ROOT || "/Volumes/T7/optimized"
+
+export function createStorage(name: StorageBackendName = process.env.STORAGE_BACKEND === "s3" ? "s3" : "local"): StorageBackend {
+    return contained(name === "s3" ? createS3Storage(s3SettingsFromEnv()) : createLocalStorage(imageRoot))
+}
+
+export const storage = createStorage()
@@ -0,0 +1,15 @@
+export class InvalidKeyError extends Error {
+    constructor(key: string) {
+        super(`Invalid storage key: ${JSON.stringify(key)}`)
+        this.name = "InvalidKeyError"
+    }
+}
+
+// Turns a relative path into a canonical key, rejecting anything that could escape the storage root
+export function normalizeKey(key: string) {
+    const parts = key.split("/").filter(part => part !== "" && part !== ".")
+    if (parts.length === 0 || parts.some(part => part === ".." || part.includes("\\") || part.includes("\0"))) {
+        throw new InvalidKeyError(key)
+    }
+    return parts.join("/")
+}
@@ -0,0 +1,58 @@
+import { createReadStream } from "fs"
+import fs from "fs/promises"
+import path from "path"
+import { Readable } from "stream"
+import { contentTypeFor } from "./content-type"
+import type { StorageBackend } from "./types"
+
+// Files on disk under a root directory
+export function createLocalStorage(root: string): StorageBackend {
+    // Resolves a key to a file, refusing symlinks that lead outside the root
+    async function locate(key: string) {
+        const filePath = path.join(root, key)
+        try {
+            const [realPath, realRoot] = await Promise.all([fs.realpath(filePath), fs.realpath(root)])
+            if (!realPath.startsWith(realRoot + path.sep)) return null
+            return realPath
+        } catch {
+            return null
+        }
+    }
+
+    return {
+        name: "local",
+
+        async stat(key) {
+            const filePath = await locate(key)
+            if (!filePath) return null
+
+            const stats = await fs.stat(filePath)
+            if (!stats.isFile()) return null
+
+            return {
+                size: stats.size,
+                etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+                lastModified: stats.mtime,
+                contentType: contentTypeFor(key)
+            }
+        },
+
+        async read(key, range) {
+            const filePath = await locate(key)
+            if (!filePath) throw new Error(`Not found: ${key}`)
+
+            const stream = createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined)
+            return Readable.toWeb(stream) as ReadableStream<Uint8Array>
+        },
+
+        async write(key, body) {
+            const filePath = path.join(root, key)
+            await fs.mkdir(path.dirname(filePath), { recursive: true })
+            await fs.writeFile(filePath, body)
+        },
+
+        async remove(key) {
+            await fs.rm(path.join(root, key), { force: true })
+        }
+    }
+}
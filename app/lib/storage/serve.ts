@@ -0,0 +1,90 @@
+import { InvalidKeyError } from "./keys"
+import type { ByteRange, StorageBackend, StoredObject } from "./types"
+
+// Parses a single-range "bytes=" header. Returns null to ignore the header (multiple ranges or
+// unknown units) and "unsatisfiable" when the range falls outside the file.
+function parseRange(header: string, size: number): ByteRange | null | "unsatisfiable" {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+    if (!match || (match[1] === "" && match[2] === "")) return null
+
+    let start: number
+    let end: number
+    if (match[1] === "") {
+        // Suffix range: the last N bytes
+        const suffix = Number(match[2])
+        if (suffix === 0) return "unsatisfiable"
+        start = Math.max(size - suffix, 0)
+        end = size - 1
+    } else {
+        start = Number(match[1])
+        end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1)
+    }
+
+    if (start >= size || start > end) return "unsatisfiable"
+    return { start, end }
+}
+
+function isNotModified(request: Request, object: StoredObject) {
+    const ifNoneMatch = request.headers.get("If-None-Match")
+    if (ifNoneMatch) {
+        return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some(tag => tag.trim().replace(/^W\//, "") === object.etag)
+    }
+
+    const ifModifiedSince = Date.parse(request.headers.get("If-Modified-Since") || "")
+    // HTTP dates have whole-second precision
+    return Number.isFinite(ifModifiedSince) && Math.floor(object.lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+}
+
+// Streams a stored file with conditional (ETag / Last-Modified) and Range support
+export async function serveStoredFile(
+    request: Request,
+    backend: StorageBackend,
+    key: string,
+    options: { cacheControl: string }
+) {
+    let object: StoredObject | null
+    try {
+        object = await backend.stat(key)
+    } catch (error) {
+        if (error instanceof InvalidKeyError) throw new Response("Not Found", { status: 404 })
+        throw error
+    }
+    if (!object) throw new Response("Not Found", { status: 404 })
+
+    const headers = new Headers({
+        "Content-Type": object.contentType,
+        "Cache-Control": options.cacheControl,
+        "ETag": object.etag,
+        "Last-Modified": object.lastModified.toUTCString(),
+        "Accept-Ranges": "bytes",
+        // Stored files are served from the site's own origin, so make sure none of them (an SVG with a script, say)
+        // can run anything when opened directly
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+        "X-Content-Type-Options": "nosniff"
+    })
+
+    if (isNotModified(request, object)) {
+        headers.delete("Content-Type")
+        return new Response(null, { status: 304, headers })
+    }
+
+    // If-Range: only honour the range when the client's copy is still current
+    const rangeHeader = request.headers.get("Range")
+    const ifRange = request.headers.get("If-Range")
+    const range = rangeHeader && (!ifRange || ifRange === object.etag) ? parseRange(rangeHeader, object.size) : null
+
+    if (range === "unsatisfiable") {
+        headers.set("Content-Range", `bytes */${object.size}`)
+        return new Response(null, { status: 416, headers })
+    }
+
+    if (range) {
+        headers.set("Content-Range", `bytes ${range.start}-${range.end}/${object.size}`)
+        headers.set("Content-Length", String(range.end - range.start + 1))
+    } else {
+        headers.set("Content-Length", String(object.size))
+    }
+
+    const body = request.method === "HEAD" ? null : await backend.read(key, range ?? undefined)
+    return new Response(body, { status: range ? 206 : 200, headers })
+}
@@ -0,0 +1,24 @@
+export type StorageBackendName = "local" | "s3"
+
+export interface StoredObject {
+    size: number
+    etag: string
+    lastModified: Date
+    contentType: string
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+    start: number
+    end: number
+}
+
+// Keys passed to a backend have already been normalized by the storage wrapper (see index.ts)
+export interface StorageBackend {
+    name: StorageBackendName
+    // Metadata for a stored object, or null when it doesn't exist
+    stat(key: string): Promise<StoredObject | null>
+    read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>
+    write(key: string, body: Buffer, contentType: string): Promise<void>
+    remove(key: string): Promise<void>
+}
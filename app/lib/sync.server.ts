@@ -0,0 +1,200 @@
+import type { Prisma, PrismaClient } from "@prisma/client"
+import { createHash } from "crypto"
+import fs from "fs/promises"
+import path from "path"
+import { csvRecords } from "./csv"
+import { imageUrl, optimizeImage } from "./images.server"
+import { notifyLeaderboardChanged } from "./live-updates/notify"
+import { currentRatingEngine } from "./replay.server"
+import { storage } from "./storage"
+
+// One source file to sync. Name and metadata come from a manifest; a plain folder scan leaves them unset,
+// so existing names (e.g. renamed in the admin) and metadata are kept.
+export interface SyncEntry {
+    file: string
+    name?: string
+    metadata?: Prisma.InputJsonObject
+}
+
+export interface SyncOptions {
+    collection: { id: number, slug: string }
+    sourceDir: string
+    entries: SyncEntry[]
+    // Storage folder the optimized files are written to
+    keyPrefix: string
+    hideMissing: boolean
+    dryRun: boolean
+}
+
+export type SyncAction = "add" | "update" | "unchanged" | "missing" | "hide" | "error"
+
+export interface SyncChange {
+    action: SyncAction
+    file: string
+    name: string
+    imageId?: number
+    reasons?: string[]
+    error?: string
+}
+
+// Formats the optimizer can read
+const IMAGE_FILE = /\.(jpg|jpeg|png|gif|webp|avif|tif|tiff|svg)$/i
+
+// Lists the image files below a folder, including subfolders
+export async function scanSourceDir(sourceDir: string): Promise<SyncEntry[]> {
+    const files = await fs.readdir(sourceDir, { recursive: true })
+    return files
+        .filter(file => IMAGE_FILE.test(file))
+        .map(file => ({ file: file.split(path.sep).join("/") }))
+        .sort((a, b) => a.file.localeCompare(b.file))
+}
+
+function toEntry(record: Record<string, unknown>, where: string): SyncEntry {
+    const { file, name, ...metadata } = record
+    if (typeof file !== "string" || file.trim() === "") {
+        throw new Error(`${where}: "file" is required`)
+    }
+    return {
+        file: file.trim(),
+        name: typeof name === "string" && name.trim() !== "" ? name.trim() : undefined,
+        metadata: metadata as Prisma.InputJsonObject
+    }
+}
+
+// Reads a manifest listing the files to sync: a JSON array of objects or a CSV file with a header row.
+// `file` (relative to the source folder) is required, `name` is optional and every other field is stored as metadata.
+export async function readManifest(manifestPath: string): Promise<SyncEntry[]> {
+    const text = await fs.readFile(manifestPath, "utf8")
+
+    if (path.extname(manifestPath).toLowerCase() === ".json") {
+        const records: unknown = JSON.parse(text)
+        if (!Array.isArray(records)) throw new Error(`${manifestPath}: expected a JSON array`)
+        return records.map((record, index) => toEntry(record, `${manifestPath} item ${index}`))
+    }
+
+    return csvRecords(text).map((record, index) => toEntry(record, `${manifestPath} line ${index + 2}`))
+}
+
+// Compares JSON values regardless of key order
+function sameJson(a: unknown, b: unknown): boolean {
+    const canonical = (value: unknown): unknown =>
+        value && typeof value === "object" && !Array.isArray(value)
+            ? Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])]))
+            : value
+    return JSON.stringify(canonical(a ?? null)) === JSON.stringify(canonical(b ?? null))
+}
+
+// Storage key an /external-images URL points to, or null for other URLs
+function storageKey(url: string) {
+    const prefix = "/external-images/"
+    return url.startsWith(prefix) ? url.slice(prefix.length).split("/").map(decodeURIComponent).join("/") : null
+}
+
+// Brings a collection in line with a source folder without touching ratings or vote history:
+// new files are optimized and added, changed files are re-optimized in place, renamed or re-described
+// entries are updated, and files that have disappeared are reported (or hidden with hideMissing).
+export async function syncImages(prisma: PrismaClient, options: SyncOptions): Promise<SyncChange[]> {
+    const { collection, dryRun } = options
+
+    const existing = await prisma.image.findMany({
+        where: { collectionId: collection.id },
+        select: { id: true, name: true, url: true, sourcePath: true, sourceHash: true, metadata: true, hiddenAt: true }
+    })
+    const bySourcePath = new Map(existing.filter(image => image.sourcePath).map(image => [image.sourcePath, image]))
+    // Only images that haven't been synced yet can be adopted by URL
+    const byUrl = new Map(existing.filter(image => !image.sourcePath).map(image => [image.url, image]))
+    const seen = new Set<number>()
+    const changes: SyncChange[] = []
+    const initial = (await currentRatingEngine(prisma)).initial()
+
+    for (const entry of options.entries) {
+        const optimizedFile = entry.file.replace(/\.[^/.]+$/, ".webp")
+        const key = [options.keyPrefix, optimizedFile].filter(Boolean).join("/")
+        const name = entry.name ?? path.posix.parse(entry.file).name
+
+        try {
+            const bytes = await fs.readFile(path.join(options.sourceDir, entry.file))
+            const hash = createHash("sha256").update(bytes).digest("hex")
+
+            // Images from earlier syncs are matched by source path; ones added by the seed scripts by URL, which
+            // for older seeds has no collection folder (and for seedLight keeps the file's own extension)
+            const image = bySourcePath.get(entry.file)
+                ?? [key, optimizedFile, entry.file].map(candidate => byUrl.get(imageUrl(candidate))).find(Boolean)
+
+            if (!image) {
+                if (!dryRun) {
+                    await storage.write(key, await optimizeImage(bytes), "image/webp")
+                    const created = await prisma.image.create({
+                        data: {
+                            collectionId: collection.id,
+                            name,
+                            url: imageUrl(key),
+                            elo: initial.rating,
+                            deviation: initial.deviation,
+                            volatility: initial.volatility,
+                            sourcePath: entry.file,
+                            sourceHash: hash,
+                            metadata: entry.metadata
+                        },
+                        select: { id: true }
+                    })
+                    changes.push({ action: "add", file: entry.file, name, imageId: created.id })
+                } else {
+                    changes.push({ action: "add", file: entry.file, name })
+                }
+                continue
+            }
+
+            seen.add(image.id)
+
+            const reasons: string[] = []
+            if (image.sourceHash === null) reasons.push("adopted")
+            else if (image.sourceHash !== hash) reasons.push("content")
+            if (entry.name !== undefined && entry.name !== image.name) reasons.push("name")
+            if (entry.metadata !== undefined && !sameJson(entry.metadata, image.metadata)) reasons.push("metadata")
+
+            if (reasons.length === 0) {
+                changes.push({ action: "unchanged", file: entry.file, name: image.name, imageId: image.id })
+                continue
+            }
+
+            if (!dryRun) {
+                // Rewrite the file where the image already points, so its URL (and any links to it) stay the same. A
+                // seeded image stored in its original format moves to a .webp file instead: the optimized bytes
+                // don't belong under a .jpg or .png name, and that file may be the source itself.
+                const currentKey = storageKey(image.url)
+                const targetKey = currentKey?.endsWith(".webp") ? currentKey : key
+                if (image.sourceHash !== hash || targetKey !== currentKey) {
+                    await storage.write(targetKey, await optimizeImage(bytes), "image/webp")
+                }
+                await prisma.image.update({
+                    where: { id: image.id },
+                    data: {
+                        url: imageUrl(targetKey),
+                        sourcePath: entry.file,
+                        sourceHash: hash,
+                        ...(entry.name !== undefined && { name: entry.name }),
+                        ...(entry.metadata !== undefined && { metadata: entry.metadata })
+                    }
+                })
+            }
+            changes.push({ action: "update", file: entry.file, name: entry.name ?? image.name, imageId: image.id, reasons })
+        } catch (error) {
+            changes.push({ action: "error", file: entry.file, name, error: error instanceof Error ? error.message : String(error) })
+        }
+    }
+
+    // Only synced images can go missing; uploads and hand-added images have no source path
+    const missing = existing.filter(image => image.sourcePath && !seen.has(image.id) && !image.hiddenAt)
+    for (const image of missing) {
+        if (options.hideMissing && !dryRun) {
+            await prisma.image.update({ where: { id: image.id }, data: { hiddenAt: new Date() } })
+        }
+        changes.push({ action: options.hideMissing ? "hide" : "missing", file: image.sourcePath!, name: image.name, imageId: image.id })
+    }
+
+    if (!dryRun && changes.some(change => change.action === "add" || change.action === "update" || change.action === "hide")) {
+        await notifyLeaderboardChanged(prisma, collection.id)
+    }
+    return changes
+}
@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto"
+
+// Pair tickets are issued by the compare loader for the exact pair it served. A vote is only accepted with a valid,
+// unexpired ticket that belongs to the voter's session and names the same two images. The ticket id is stored on
+// the resulting Match under a unique constraint, so each ticket can be spent once.
+
+// A secret anyone could read would let them forge tickets, so production refuses to start without one. Development
+// gets a random one per process: tickets stop working after a restart, but can't be forged.
+function ticketSecret() {
+    const configured = process.env.PAIR_TICKET_SECRET || process.env.SESSION_SECRET
+    if (configured) return configured
+    if (process.env.NODE_ENV === "production") {
+        throw new Error("Set PAIR_TICKET_SECRET or SESSION_SECRET to sign pair tickets")
+    }
+    return randomBytes(32).toString("base64url")
+}
+
+const secret = ticketSecret()
+const ttlMs = (Number(process.env.PAIR_TICKET_TTL_SECONDS) || 30 * 60) * 1000
+
+export interface PairTicket {
+    id: string
+    sessionId: string
+    imageAId: number
+    imageBId: number
+    issuedAt: number
+    expiresAt: number
+}
+
+export type TicketRejection = "missing" | "malformed" | "bad-signature" | "expired" | "session-mismatch" | "pair-mismatch" | "already-used"
+
+export class TicketError extends Error {
+    constructor(public reason: TicketRejection) {
+        super(`Pair ticket rejected: ${reason}`)
+        this.name = "TicketError"
+    }
+}
+
+function sign(payload: string) {
+    return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+export function issueTicket(sessionId: string, imageAId: number, imageBId: number) {
+    const now = Date.now()
+    const ticket: PairTicket = { id: randomUUID(), sessionId, imageAId, imageBId, issuedAt: now, expiresAt: now + ttlMs }
+    const payload = Buffer.from(JSON.stringify(ticket)).toString("base64url")
+
+    return `${payload}.${sign(payload)}`
+}
+
+// Checks signature, expiry, session and pair. Single use is enforced when the Match is written.
+export function verifyTicket(token: unknown, expected: { sessionId: string, winnerId: number, loserId: number }): PairTicket {
+    if (typeof token !== "string" || token === "") {
+        throw new TicketError("missing")
+    }
+
+    const [payload, signature, ...rest] = token.split(".")
+    if (!payload || !signature || rest.length > 0) {
+        throw new TicketError("malformed")
+    }
+
+    const expectedSignature = Buffer.from(sign(payload))
+    const actualSignature = Buffer.from(signature)
+    if (expectedSignature.length !== actualSignature.length || !timingSafeEqual(expectedSignature, actualSignature)) {
+        throw new TicketError("bad-signature")
+    }
+
+    let ticket: PairTicket
+    try {
+        ticket = JSON.parse(Buffer.from(payload, "base64url").toString())
+    } catch {
+        throw new TicketError("malformed")
+    }
+
+    if (Date.now() > ticket.expiresAt) {
+        throw new TicketError("expired")
+    }
+
+    if (ticket.sessionId !== expected.sessionId) {
+        throw new TicketError("session-mismatch")
+    }
+
+    const servedPair = [ticket.imageAId, ticket.imageBId].sort((a, b) => a - b).join()
+    const votedPair = [expected.winnerId, expected.loserId].sort((a, b) => a - b).join()
+    if (servedPair !== votedPair) {
+        throw new TicketError("pair-mismatch")
+    }
+
+    return ticket
+}
+
+export function logTicketRejection(reason: TicketRejection, details: Record<string, unknown>) {
+    console.warn(`Rejected vote (${reason}):`, JSON.stringify(details))
+}
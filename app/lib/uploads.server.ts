@@ -0,0 +1,121 @@
+import { randomBytes } from "crypto"
+import path from "path"
+import { db } from "~/db.server"
+import { imageUrl, optimizeImage, sniffImageFormat } from "~/lib/images.server"
+import { notifyLeaderboardChanged } from "~/lib/live-updates"
+import { currentRatingEngine } from "~/lib/replay.server"
+import { storage } from "~/lib/storage"
+
+export const MAX_UPLOAD_FILE_BYTES = 20 * 1024 * 1024
+const MAX_UPLOAD_REQUEST_BYTES = 200 * 1024 * 1024
+
+export type UploadResult =
+    | { file: string, ok: true, imageId: number, url: string }
+    | { file: string, ok: false, error: string }
+
+export class UploadError extends Error {
+    constructor(public status: number, message: string) {
+        super(message)
+        this.name = "UploadError"
+    }
+}
+
+// Reads the upload form, rejecting oversized requests before they're buffered: up front from Content-Length, and
+// while reading for chunked requests that don't send one
+export async function readUploadForm(request: Request) {
+    const tooLarge = () => new UploadError(413, `Uploads are limited to ${MAX_UPLOAD_REQUEST_BYTES / 1024 / 1024} MB per request`)
+    if (Number(request.headers.get("Content-Length")) > MAX_UPLOAD_REQUEST_BYTES) throw tooLarge()
+    if (!request.body) return request.formData()
+
+    let received = 0
+    let exceeded = false
+    const limited = request.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength
+            if (received > MAX_UPLOAD_REQUEST_BYTES) {
+                exceeded = true
+                controller.error(tooLarge())
+                return
+            }
+            controller.enqueue(chunk)
+        }
+    }))
+
+    try {
+        return await new Response(limited, { headers: { "Content-Type": request.headers.get("Content-Type") ?? "" } }).formData()
+    } catch (error) {
+        if (exceeded) throw tooLarge()
+        throw error
+    }
+}
+
+function slugify(name: string) {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "image"
+}
+
+async function storeImage(file: File, collection: { id: number, slug: string }, hidden: boolean) {
+    if (file.size === 0) throw new UploadError(400, "File is empty")
+    if (file.size > MAX_UPLOAD_FILE_BYTES) throw new UploadError(413, `File is larger than ${MAX_UPLOAD_FILE_BYTES / 1024 / 1024} MB`)
+
+    const bytes = Buffer.from(await file.arrayBuffer())
+    if (!sniffImageFormat(bytes)) {
+        throw new UploadError(415, "Not a supported image (JPEG, PNG, GIF, WebP, AVIF or TIFF)")
+    }
+
+    let optimized: Buffer
+    try {
+        optimized = await optimizeImage(bytes)
+    } catch {
+        throw new UploadError(422, "Image could not be decoded")
+    }
+
+    const name = path.parse(file.name).name.trim() || "Untitled"
+    const key = `${collection.slug}/${slugify(name)}-${randomBytes(4).toString("hex")}.webp`
+    await storage.write(key, optimized, "image/webp")
+
+    const initial = (await currentRatingEngine(db)).initial()
+    try {
+        const image = await db.image.create({
+            data: {
+                collectionId: collection.id,
+                name,
+                url: imageUrl(key),
+                elo: initial.rating,
+                deviation: initial.deviation,
+                volatility: initial.volatility,
+                hiddenAt: hidden ? new Date() : null
+            },
+            select: { id: true, url: true }
+        })
+        return image
+    } catch (error) {
+        // Don't leave orphaned files behind
+        await storage.remove(key)
+        throw error
+    }
+}
+
+// Optimizes and stores every uploaded file, creating an Image row for each. One bad file doesn't stop the rest.
+export async function uploadImages(files: File[], collection: { id: number, slug: string }, options: { hidden: boolean }) {
+    const results: UploadResult[] = []
+
+    for (const file of files) {
+        try {
+            const image = await storeImage(file, collection, options.hidden)
+            results.push({ file: file.name, ok: true, imageId: image.id, url: image.url })
+        } catch (error) {
+            if (!(error instanceof UploadError)) {
+                console.error(`Upload of ${file.name} failed:`, error)
+            }
+            results.push({ file: file.name, ok: false, error: error instanceof UploadError ? error.message : "Upload failed" })
+        }
+    }
+
+    // Hidden uploads wait for review and don't show up on leaderboards yet
+    if (!options.hidden && results.some(result => result.ok)) await notifyLeaderboardChanged(db, collection.id)
+    return results
+}
+
+export function uploadedFiles(formData: FormData) {
+    return formData.getAll("files").filter((value): value is File => value instanceof File && value.name !== "")
+}
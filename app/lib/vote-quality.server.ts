@@ -0,0 +1,311 @@
+import { Prisma, type MatchSide, type PrismaClient, type SessionReviewStatus } from "@prisma/client"
+import { createHmac } from "crypto"
+import { isbot } from "isbot"
+
+// Vote quality analysis: flags voting sessions whose votes look careless or fraudulent and lowers the weight
+// of their votes. Weights are applied to new votes straight away and to past votes by the next replay.
+
+export const voteQualitySettings = {
+    // Nearly every vote for the same side of the screen
+    sideBiasMinVotes: 20,
+    sideBiasShare: 0.95,
+    // Most votes cast faster than the images could load and be looked at
+    fastVoteMs: Number(process.env.VOTE_MIN_DECISION_MS) || 700,
+    fastVoteMinVotes: 10,
+    fastVoteShare: 0.5,
+    // Voting for one image almost every time it appears, when other sessions mostly don't
+    favouriteMinAppearances: 8,
+    favouriteWinShare: 0.9,
+    favouriteMaxOtherWinRate: 0.6,
+    // Several sessions favouring the same image, or two from the same client
+    coordinatedMinSessions: 3,
+    coordinatedMinSessionsPerClient: 2,
+    // Weight of votes from down-weighted sessions
+    downweight: 0.25
+}
+
+export type VoteFlag = "bot" | "side-bias" | "fast" | "favourite" | "coordinated"
+
+// The evidence stored with each flag
+export interface VoteFlagDetails {
+    "bot": { userAgent?: string }
+    "side-bias": { side: MatchSide, share: number }
+    "fast": { share: number, thresholdMs: number }
+    "favourite": { imageId: number, wins: number, shown: number, otherWinRate: number | null }
+    "coordinated": { imageId: number, sessions: number }
+}
+
+// A session's evidence, one entry per flag it has
+export type VoteFlagEvidence = { [Flag in VoteFlag]?: VoteFlagDetails[Flag] }
+
+const quarantineFlags: VoteFlag[] = ["bot", "side-bias", "coordinated"]
+
+export function voteWeightFor(status: SessionReviewStatus | null | undefined) {
+    switch (status) {
+        case "QUARANTINED":
+            return 0
+        case "DOWNWEIGHTED":
+            return voteQualitySettings.downweight
+        default:
+            return 1
+    }
+}
+
+function statusFor(flags: VoteFlag[]): SessionReviewStatus {
+    return flags.some(flag => quarantineFlags.includes(flag)) ? "QUARANTINED" : "DOWNWEIGHTED"
+}
+
+const secret = process.env.SESSION_SECRET || "default-secret-change-in-production"
+
+// Keyed hash of the client IP, so sessions from one client can be grouped without storing the address
+export function hashClient(clientIP: string) {
+    return createHmac("sha256", secret).update(clientIP).digest("hex").slice(0, 16)
+}
+
+// Weight for a new vote from this session. A bot user agent quarantines the session on the spot.
+export async function sessionVoteWeight(prisma: PrismaClient, sessionId: string, userAgent: string | null | undefined) {
+    const review = await prisma.sessionReview.findUnique({
+        where: { sessionId },
+        select: { status: true, flags: true }
+    })
+
+    if (userAgent && isbot(userAgent) && review?.status !== "CLEARED") {
+        if (!review?.flags.includes("bot")) {
+            const details = { bot: { userAgent: userAgent.slice(0, 200) } }
+            await prisma.$transaction([
+                prisma.sessionReview.upsert({
+                    where: { sessionId },
+                    create: { sessionId, status: "QUARANTINED", flags: ["bot"], details, voteCount: 0 },
+                    update: { status: "QUARANTINED", flags: { push: "bot" }, analyzedAt: new Date() }
+                }),
+                prisma.match.updateMany({ where: { sessionId }, data: { weight: 0 } })
+            ])
+        }
+        return 0
+    }
+
+    return voteWeightFor(review?.status)
+}
+
+export interface SessionVerdict {
+    sessionId: string
+    flags: VoteFlag[]
+    status: SessionReviewStatus | null
+    previousStatus: SessionReviewStatus | null
+    voteCount: number
+    details: VoteFlagEvidence
+}
+
+export interface VoteQualityResult {
+    analyzedSessions: number
+    verdicts: SessionVerdict[]
+    // Sessions whose vote weight changed; ratings need a replay to reflect them
+    reweightedSessions: number
+}
+
+function groupBy<T, K>(items: T[], key: (item: T) => K) {
+    const groups = new Map<K, T[]>()
+    for (const item of items) {
+        const group = groups.get(key(item))
+        if (group) group.push(item)
+        else groups.set(key(item), [item])
+    }
+    return groups
+}
+
+interface SessionStats {
+    sessionId: string
+    votes: bigint
+    leftVotes: bigint
+    sidedVotes: bigint
+    fastVotes: bigint
+    timedVotes: bigint
+}
+
+interface Favourite {
+    sessionId: string
+    imageId: number
+    shown: bigint
+    wins: bigint
+    otherWinRate: number | null
+    clientHash: string | null
+}
+
+// Scores every session with enough votes and records the result in SessionReview. Sessions an admin has
+// cleared are left alone; sessions that no longer look suspicious are un-flagged.
+export async function analyzeVoteQuality(prisma: PrismaClient, options: { dryRun: boolean }): Promise<VoteQualityResult> {
+    const settings = voteQualitySettings
+    const minVotes = Math.min(settings.sideBiasMinVotes, settings.fastVoteMinVotes, settings.favouriteMinAppearances)
+
+    const stats = await prisma.$queryRaw<SessionStats[]>`
+        SELECT "sessionId",
+            COUNT(*) AS "votes",
+            COUNT(*) FILTER (WHERE "winnerSide" = 'LEFT') AS "leftVotes",
+            COUNT("winnerSide") AS "sidedVotes",
+            COUNT(*) FILTER (WHERE "decisionMs" < ${settings.fastVoteMs}) AS "fastVotes",
+            COUNT("decisionMs") AS "timedVotes"
+        FROM "Match"
+        WHERE "outcome" <> 'SKIP'
+        GROUP BY "sessionId"
+        HAVING COUNT(*) >= ${minVotes}`
+
+    // Per session and image: how often it was shown and chosen, against how often everyone else chose it.
+    // A draw counts as shown but not chosen.
+    const favourites = await prisma.$queryRaw<Favourite[]>`
+        WITH votes AS (
+            SELECT * FROM "Match" WHERE "outcome" <> 'SKIP'
+        ), appearances AS (
+            SELECT "sessionId", "winnerId" AS "imageId", CASE WHEN "outcome" = 'WIN' THEN 1 ELSE 0 END AS won FROM votes
+            UNION ALL
+            SELECT "sessionId", "loserId", 0 FROM votes
+        ), per_session AS (
+            SELECT "sessionId", "imageId", COUNT(*) AS shown, SUM(won) AS wins
+            FROM appearances GROUP BY "sessionId", "imageId"
+        ), per_image AS (
+            SELECT "imageId", SUM(shown) AS shown, SUM(wins) AS wins FROM per_session GROUP BY "imageId"
+        ), clients AS (
+            SELECT "sessionId", MIN("clientHash") AS "clientHash" FROM votes GROUP BY "sessionId"
+        )
+        SELECT s."sessionId", s."imageId", s.shown, s.wins::bigint AS wins,
+            (i.wins - s.wins)::float8 / NULLIF(i.shown - s.shown, 0) AS "otherWinRate",
+            c."clientHash"
+        FROM per_session s
+        JOIN per_image i USING ("imageId")
+        JOIN clients c USING ("sessionId")
+        WHERE s.shown >= ${settings.favouriteMinAppearances}
+            AND s.wins >= ${settings.favouriteWinShare} * s.shown`
+
+    const flagged = new Map<string, { flags: Set<VoteFlag>, details: VoteFlagEvidence }>()
+    const flag = <Flag extends VoteFlag>(sessionId: string, name: Flag, details: VoteFlagDetails[Flag]) => {
+        const entry = flagged.get(sessionId) ?? { flags: new Set(), details: {} }
+        entry.flags.add(name)
+        entry.details[name] = details
+        flagged.set(sessionId, entry)
+    }
+
+    for (const session of stats) {
+        const sided = Number(session.sidedVotes)
+        const left = Number(session.leftVotes)
+        if (sided >= settings.sideBiasMinVotes) {
+            const share = Math.max(left, sided - left) / sided
+            if (share >= settings.sideBiasShare) {
+                flag(session.sessionId, "side-bias", { side: left * 2 >= sided ? "LEFT" : "RIGHT", share })
+            }
+        }
+
+        const timed = Number(session.timedVotes)
+        if (timed >= settings.fastVoteMinVotes) {
+            const share = Number(session.fastVotes) / timed
+            if (share >= settings.fastVoteShare) {
+                flag(session.sessionId, "fast", { share, thresholdMs: settings.fastVoteMs })
+            }
+        }
+    }
+
+    // Images that a session backs far more often than everybody else does
+    const boosts = favourites.filter(favourite =>
+        favourite.otherWinRate !== null && favourite.otherWinRate < settings.favouriteMaxOtherWinRate
+    )
+    for (const boost of boosts) {
+        flag(boost.sessionId, "favourite", {
+            imageId: boost.imageId,
+            wins: Number(boost.wins),
+            shown: Number(boost.shown),
+            otherWinRate: boost.otherWinRate
+        })
+    }
+
+    for (const [imageId, group] of groupBy(boosts, boost => boost.imageId)) {
+        const byClient = groupBy(group.filter(boost => boost.clientHash), boost => boost.clientHash)
+        const sameClient = [...byClient.values()].filter(sessions => sessions.length >= settings.coordinatedMinSessionsPerClient).flat()
+        const coordinated = group.length >= settings.coordinatedMinSessions ? group : sameClient
+
+        for (const boost of coordinated) {
+            flag(boost.sessionId, "coordinated", { imageId, sessions: group.length })
+        }
+    }
+
+    const voteCounts = new Map(stats.map(session => [session.sessionId, Number(session.votes)]))
+    const existing = await prisma.sessionReview.findMany({
+        select: { sessionId: true, status: true, flags: true, details: true, voteCount: true }
+    })
+    const existingBySession = new Map(existing.map(review => [review.sessionId, review]))
+
+    const verdicts: SessionVerdict[] = []
+    const sessionIds = new Set([...flagged.keys(), ...existingBySession.keys()])
+    for (const sessionId of sessionIds) {
+        const previous = existingBySession.get(sessionId)
+        // An admin's decision stands
+        if (previous?.status === "CLEARED") continue
+
+        const entry = flagged.get(sessionId) ?? { flags: new Set<VoteFlag>(), details: {} }
+        // Bot flags come from the user agent at vote time, not from this analysis
+        if (previous?.flags.includes("bot")) {
+            entry.flags.add("bot")
+            entry.details.bot = (previous.details as VoteFlagEvidence | null)?.bot ?? {}
+        }
+
+        const flags = [...entry.flags]
+        verdicts.push({
+            sessionId,
+            flags,
+            status: flags.length > 0 ? statusFor(flags) : null,
+            previousStatus: previous?.status ?? null,
+            voteCount: voteCounts.get(sessionId) ?? previous?.voteCount ?? 0,
+            details: entry.details
+        })
+    }
+
+    const reweighted = verdicts.filter(verdict => voteWeightFor(verdict.status) !== voteWeightFor(verdict.previousStatus))
+
+    if (!options.dryRun) {
+        const analyzedAt = new Date()
+        await prisma.$transaction([
+            ...verdicts.map(verdict => verdict.status
+                ? prisma.sessionReview.upsert({
+                    where: { sessionId: verdict.sessionId },
+                    create: {
+                        sessionId: verdict.sessionId,
+                        status: verdict.status,
+                        flags: verdict.flags,
+                        details: verdict.details as Prisma.InputJsonObject,
+                        voteCount: verdict.voteCount,
+                        analyzedAt
+                    },
+                    update: {
+                        status: verdict.status,
+                        flags: verdict.flags,
+                        details: verdict.details as Prisma.InputJsonObject,
+                        voteCount: verdict.voteCount,
+                        analyzedAt
+                    }
+                })
+                : prisma.sessionReview.delete({ where: { sessionId: verdict.sessionId } })
+            ),
+            ...reweighted.map(verdict => prisma.match.updateMany({
+                where: { sessionId: verdict.sessionId },
+                data: { weight: voteWeightFor(verdict.status) }
+            }))
+        ])
+    }
+
+    return {
+        analyzedSessions: stats.length,
+        verdicts: verdicts.filter(verdict => verdict.status || verdict.previousStatus),
+        reweightedSessions: reweighted.length
+    }
+}
+
+// Applies an admin's decision on a flagged session and reweights its votes. Returns whether the weight changed,
+// in which case ratings need a replay.
+export async function reviewSession(prisma: PrismaClient, sessionId: string, status: SessionReviewStatus) {
+    const review = await prisma.sessionReview.findUnique({ where: { sessionId }, select: { status: true } })
+    if (!review) return false
+
+    await prisma.$transaction([
+        prisma.sessionReview.update({ where: { sessionId }, data: { status, reviewedAt: new Date() } }),
+        prisma.match.updateMany({ where: { sessionId }, data: { weight: voteWeightFor(status) } })
+    ])
+
+    return voteWeightFor(status) !== voteWeightFor(review.status)
+}
@@ -0,0 +1,65 @@
+import { createHash, randomInt } from "crypto"
+import { db } from "~/db.server"
+
+// Lightweight accounts: a voter creates a sync code on one device and enters it on others.
+// Every session linked to the same code shares one voting history for the personal ranking.
+
+// No 0/O or 1/I, so codes survive being read out or copied by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const CODE_LENGTH = 12
+
+function generateSyncCode() {
+    const chars = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)])
+    return chars.join("").match(/.{4}/g)!.join("-")
+}
+
+// Codes are accepted in any case, with or without dashes and spaces
+function hashSyncCode(code: string) {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+    return createHash("sha256").update(normalized).digest("hex")
+}
+
+// Every session whose votes belong to this voter: all sessions linked to the same code, or just this one
+export async function voterSessionIds(sessionId: string) {
+    const link = await db.voterSession.findUnique({
+        where: { sessionId },
+        select: { voter: { select: { sessions: { select: { sessionId: true } } } } }
+    })
+    return link ? link.voter.sessions.map(session => session.sessionId) : [sessionId]
+}
+
+export async function isLinked(sessionId: string) {
+    return (await db.voterSession.count({ where: { sessionId } })) > 0
+}
+
+// Creates a sync code for this session. If it's already linked, the voter gets a new code and the old one stops working.
+export async function createSyncCode(sessionId: string) {
+    const code = generateSyncCode()
+    const codeHash = hashSyncCode(code)
+
+    const link = await db.voterSession.findUnique({ where: { sessionId }, select: { voterId: true } })
+    if (link) {
+        await db.voter.update({ where: { id: link.voterId }, data: { codeHash } })
+    } else {
+        await db.voter.create({ data: { codeHash, sessions: { create: { sessionId } } } })
+    }
+
+    return code
+}
+
+// Links this session to the voter with the given code. Returns false for unknown codes.
+export async function linkSyncCode(sessionId: string, code: string) {
+    const voter = await db.voter.findUnique({ where: { codeHash: hashSyncCode(code) }, select: { id: true } })
+    if (!voter) return false
+
+    await db.voterSession.upsert({
+        where: { sessionId },
+        create: { sessionId, voterId: voter.id },
+        update: { voterId: voter.id, linkedAt: new Date() }
+    })
+    return true
+}
+
+export async function unlinkSession(sessionId: string) {
+    await db.voterSession.deleteMany({ where: { sessionId } })
+}
@@ -0,0 +1,170 @@
+import { Prisma, type MatchOutcome } from "@prisma/client"
+import { db } from "~/db.server"
+import { pickPair } from "~/lib/pairing.server"
+import { enforceRateLimit, RateLimitError, rateLimitHeaders, type RateLimitDecision } from "~/lib/rate-limit"
+import { recordMatch, type MatchResult } from "~/lib/record-match.server"
+import { issueTicket, logTicketRejection, TicketError, verifyTicket, type PairTicket } from "~/lib/tickets.server"
+import { hashClient, sessionVoteWeight } from "~/lib/vote-quality.server"
+
+// Serving pairs and casting votes, shared by the compare page and the JSON API
+
+export type VoteErrorCode = "invalid_request" | "invalid_ticket" | "ticket_expired" | "ticket_used" | "rate_limited" | "not_found"
+
+export class VoteError extends Error {
+    constructor(public status: number, public code: VoteErrorCode, message: string, public headers?: Headers) {
+        super(message)
+        this.name = "VoteError"
+    }
+}
+
+const ticketRejections = {
+    "missing": [400, "invalid_ticket"],
+    "malformed": [400, "invalid_ticket"],
+    "bad-signature": [400, "invalid_ticket"],
+    "session-mismatch": [400, "invalid_ticket"],
+    "pair-mismatch": [400, "invalid_ticket"],
+    "expired": [410, "ticket_expired"],
+    "already-used": [409, "ticket_used"]
+} as const
+
+// Picks the next pair from a collection and issues a ticket for it, bound to the voter's session
+export async function servePair(collectionId: number, sessionId: string) {
+    const { imageA, imageB } = await pickPair(collectionId)
+    const ticket = issueTicket(sessionId, imageA.id, imageB.id)
+
+    return { imageA, imageB, ticket }
+}
+
+// "draw" scores half a win for each image; "skip" records that the pair was passed over without changing ratings.
+// For both, winnerId and loserId are simply the two images.
+export type VoteOutcome = "win" | "draw" | "skip"
+
+const matchOutcomes: Record<VoteOutcome, MatchOutcome> = { win: "WIN", draw: "DRAW", skip: "SKIP" }
+
+function isVoteOutcome(value: unknown): value is VoteOutcome {
+    return typeof value === "string" && Object.hasOwn(matchOutcomes, value)
+}
+
+export interface VoteInput {
+    winnerId: unknown
+    loserId: unknown
+    ticket: unknown
+    // Defaults to "win"
+    outcome?: unknown
+    // How long the pair was on screen, in milliseconds, as reported by the compare page
+    displayedMs?: unknown
+    sessionId: string
+    clientIP: string
+    // The API key an API vote was cast with
+    apiKeyId?: number
+    // Browser user agent, checked for bots. API clients leave it out.
+    userAgent?: string | null
+}
+
+// Time from showing the pair to the vote. The compare page fetches pairs ahead of time, so a ticket's age includes
+// time the pair spent queued; the page reports how long it was actually on screen, capped at the ticket's age.
+// Clients that don't report it fetch pairs one at a time, so the ticket's age is all there is.
+function decisionTime(ticket: PairTicket, displayedMs: unknown) {
+    const ticketAge = Math.max(0, Date.now() - ticket.issuedAt)
+    const displayed = typeof displayedMs === "string" && displayedMs !== "" ? Number(displayedMs) : NaN
+    return Number.isFinite(displayed) && displayed >= 0 ? Math.min(Math.round(displayed), ticketAge) : ticketAge
+}
+
+// Whether a write failed on the unique constraint of this field
+function isUniqueViolation(error: unknown, field: string) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") return false
+    // A list of the constraint's fields, or its name
+    const target = error.meta?.target
+    return Array.isArray(target) ? target.includes(field) : typeof target === "string" && target.includes(field)
+}
+
+export interface VoteResult extends MatchResult {
+    outcome: VoteOutcome
+}
+
+// Validates, rate limits and records a vote, returning both images' new ratings and the voter's remaining
+// rate limit. Throws VoteError for rejected votes.
+export async function castVote(input: VoteInput): Promise<{ vote: VoteResult, rateLimit: RateLimitDecision | null }> {
+    const { sessionId, clientIP } = input
+    let winnerId = Number(input.winnerId)
+    let loserId = Number(input.loserId)
+    const outcome = input.outcome ?? "win"
+
+    // Basic validation
+    if (!Number.isInteger(winnerId) || !Number.isInteger(loserId) || winnerId === loserId) {
+        throw new VoteError(400, "invalid_request", "Invalid image IDs")
+    }
+    if (!isVoteOutcome(outcome)) {
+        throw new VoteError(400, "invalid_request", `Invalid outcome; expected one of ${Object.keys(matchOutcomes).join(", ")}`)
+    }
+
+    // Only accept votes for a pair this session was actually shown
+    let ticket: PairTicket
+    try {
+        ticket = verifyTicket(input.ticket, { sessionId, winnerId, loserId })
+    } catch (error) {
+        if (error instanceof TicketError) {
+            logTicketRejection(error.reason, { sessionId, clientIP, winnerId, loserId })
+            const [status, code] = ticketRejections[error.reason]
+            throw new VoteError(status, code, "This comparison is no longer valid. Please load a new pair.")
+        }
+        throw error
+    }
+
+    // Draws and skips aren't a choice of side, so they're stored in the order the pair was shown
+    if (outcome !== "win" && winnerId !== ticket.imageAId) {
+        [winnerId, loserId] = [loserId, winnerId]
+    }
+
+    let rateLimit: RateLimitDecision | null
+    try {
+        rateLimit = await enforceRateLimit("vote", {
+            ip: clientIP,
+            session: sessionId,
+            apiKey: input.apiKeyId === undefined ? undefined : String(input.apiKeyId)
+        })
+    } catch (error) {
+        if (error instanceof RateLimitError) {
+            throw new VoteError(429, "rate_limited", error.message, rateLimitHeaders(error.decision))
+        }
+        throw error
+    }
+
+    try {
+        // Flagged sessions' votes count for less. Two votes from a new bot session may both try to create its
+        // review; the one that loses just reads the review the other wrote.
+        const weight = await sessionVoteWeight(db, sessionId, input.userAgent).catch(error => {
+            if (isUniqueViolation(error, "sessionId")) return sessionVoteWeight(db, sessionId, input.userAgent)
+            throw error
+        })
+        const result = await recordMatch(db, {
+            winnerId,
+            loserId,
+            outcome: matchOutcomes[outcome],
+            weight,
+            sessionId,
+            ticketId: ticket.id,
+            winnerSide: outcome !== "win" ? null : winnerId === ticket.imageAId ? "LEFT" : "RIGHT",
+            decisionMs: decisionTime(ticket, input.displayedMs),
+            // An API key's voters are one client to the vote quality analysis, wherever the requests come from
+            clientHash: hashClient(input.apiKeyId === undefined ? clientIP : `api:${input.apiKeyId}`)
+        })
+
+        if (!result) {
+            throw new VoteError(404, "not_found", "Images not found")
+        }
+
+        return { vote: { outcome, ...result }, rateLimit }
+    } catch (error) {
+        if (error instanceof VoteError) throw error
+
+        // The unique ticketId means this ticket has already been spent
+        if (isUniqueViolation(error, "ticketId")) {
+            logTicketRejection("already-used", { sessionId, clientIP, winnerId, loserId, ticketId: ticket.id })
+            throw new VoteError(409, "ticket_used", "This comparison has already been voted on.")
+        }
+
+        console.error("Database error:", error)
+        throw new Error("Failed to update ratings. Please try again.")
+    }
+}
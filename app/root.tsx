@@ -8,6 +8,7 @@ import {
 } from "react-router"
 import type { Route } from "./+types/root"
 import { Provider } from "./components/ui/provider"
+import { Toaster } from "./components/ui/toaster"
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -45,6 +46,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
           }}>
             {children}
           </div>
+          <Toaster />
           <ScrollRestoration />
           <Scripts />
         </Provider>
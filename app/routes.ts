@@ -3,5 +3,39 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes"
 export default [
     index("routes/home.tsx"),
     route("/compare", "routes/compare.tsx"),
-    route("/external-images/*", "routes/external-images.$.tsx")
+    route("/compare/pairs", "routes/compare.pairs.ts"),
+    route("/compare/vote", "routes/compare.vote.ts"),
+    route("/leaderboard", "routes/leaderboard.tsx"),
+    route("/leaderboard/live", "routes/leaderboard.live.ts"),
+    route("/movers", "routes/movers.tsx"),
+    route("/c/:slug", "routes/home.tsx", { id: "collection-home" }),
+    route("/c/:slug/compare", "routes/compare.tsx", { id: "collection-compare" }),
+    route("/c/:slug/compare/pairs", "routes/compare.pairs.ts", { id: "collection-compare-pairs" }),
+    route("/c/:slug/leaderboard", "routes/leaderboard.tsx", { id: "collection-leaderboard" }),
+    route("/c/:slug/leaderboard/live", "routes/leaderboard.live.ts", { id: "collection-leaderboard-live" }),
+    route("/c/:slug/movers", "routes/movers.tsx", { id: "collection-movers" }),
+    route("/stats", "routes/stats.tsx"),
+    route("/c/:slug/stats", "routes/stats.tsx", { id: "collection-stats" }),
+    route("/me", "routes/me.tsx"),
+    route("/c/:slug/me", "routes/me.tsx", { id: "collection-me" }),
+    route("/upload", "routes/upload.tsx"),
+    route("/c/:slug/upload", "routes/upload.tsx", { id: "collection-upload" }),
+    route("/image/:id", "routes/image.$id.tsx"),
+    route("/external-images/*", "routes/external-images.$.tsx"),
+
+    // Admin area, enabled by setting ADMIN_PASSWORD (and SESSION_SECRET)
+    route("/admin", "routes/admin.tsx"),
+    route("/admin/upload", "routes/admin.upload.tsx"),
+    route("/admin/votes", "routes/admin.votes.tsx"),
+    route("/admin/skips", "routes/admin.skips.tsx"),
+    route("/admin/snapshots", "routes/admin.snapshots.tsx"),
+    route("/admin/export/:dataset", "routes/admin.export.$dataset.ts"),
+    route("/admin/login", "routes/admin.login.tsx"),
+    route("/admin/logout", "routes/admin.logout.ts"),
+
+    // Versioned JSON API, authenticated with API keys
+    route("/api/v1/pair", "routes/api.v1.pair.ts"),
+    route("/api/v1/votes", "routes/api.v1.votes.ts"),
+    route("/api/v1/leaderboard", "routes/api.v1.leaderboard.ts"),
+    route("/api/v1/images/:id", "routes/api.v1.images.$id.ts")
 ] satisfies RouteConfig
@@ -0,0 +1,62 @@
+import type { Route } from "./+types/admin.export.$dataset"
+import { db } from "~/db.server"
+import { requireAdmin } from "~/lib/admin.server"
+import { exportContentTypes, exportRows, isExportDataset, isExportFormat, type ExportFilters } from "~/lib/export.server"
+
+function parseDate(value: string | null, name: string) {
+    if (!value) return undefined
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) {
+        throw new Response(`Invalid ${name} date "${value}"`, { status: 400 })
+    }
+    return date
+}
+
+// GET /admin/export/rankings?format=csv&collection=<slug>&hidden=1
+// GET /admin/export/votes?format=ndjson&collection=<slug>&from=2025-01-01&to=2025-02-01
+export async function loader({ request, params }: Route.LoaderArgs) {
+    await requireAdmin(request)
+
+    const url = new URL(request.url)
+    const format = url.searchParams.get("format") ?? "csv"
+    if (!isExportDataset(params.dataset) || !isExportFormat(format)) {
+        throw new Response("Not Found", { status: 404 })
+    }
+
+    const filters: ExportFilters = {
+        from: parseDate(url.searchParams.get("from"), "from"),
+        to: parseDate(url.searchParams.get("to"), "to"),
+        includeHidden: url.searchParams.get("hidden") === "1"
+    }
+
+    const slug = url.searchParams.get("collection")
+    if (slug) {
+        const collection = await db.collection.findUnique({ where: { slug }, select: { id: true } })
+        if (!collection) {
+            throw new Response("Collection not found", { status: 404 })
+        }
+        filters.collectionId = collection.id
+    }
+
+    const filename = [params.dataset, slug, new Date().toISOString().slice(0, 10)].filter(Boolean).join("-")
+    const chunks = exportRows(db, params.dataset, format, filters)
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { value, done } = await chunks.next()
+            if (done) controller.close()
+            else controller.enqueue(encoder.encode(value))
+        },
+        async cancel() {
+            await chunks.return(undefined)
+        }
+    })
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": exportContentTypes[format],
+            "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+            "Cache-Control": "private, no-store"
+        }
+    })
+}
@@ -0,0 +1,70 @@
+import { Box, Button, Heading, Input, Text, VStack } from "@chakra-ui/react"
+import { data, Form, redirect, useNavigation } from "react-router"
+import type { Route } from "./+types/admin.login"
+import { checkAdminPassword, createAdminSession, isAdmin, isAdminEnabled, safeAdminRedirect } from "~/lib/admin.server"
+import { checkRateLimit, getClientIP, rateLimitHeaders } from "~/lib/rate-limit"
+
+export async function loader({ request }: Route.LoaderArgs) {
+  if (!isAdminEnabled()) {
+    throw new Response("Not Found", { status: 404 })
+  }
+
+  const redirectTo = safeAdminRedirect(new URL(request.url).searchParams.get("redirectTo"))
+  if (await isAdmin(request)) {
+    throw redirect(redirectTo)
+  }
+
+  return { redirectTo }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData()
+  const clientIP = getClientIP(request)
+
+  // Slows down password guessing
+  const rateLimit = await checkRateLimit("adminLogin", { ip: clientIP })
+  if (rateLimit && !rateLimit.allowed) {
+    const minutes = Math.ceil(rateLimit.retryAfterSeconds / 60)
+    return data(
+      { error: `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.` },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    )
+  }
+
+  if (!checkAdminPassword(formData.get("password"))) {
+    console.warn("Failed admin login from", clientIP)
+    return data({ error: "Incorrect password" }, { status: 401 })
+  }
+
+  return createAdminSession(safeAdminRedirect(formData.get("redirectTo")))
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin Login" }]
+}
+
+export default function AdminLogin({ loaderData, actionData }: Route.ComponentProps) {
+  const navigation = useNavigation()
+
+  return (
+    <Box p="10" maxW="sm" mx="auto" minH="100vh">
+      <Form method="post">
+        <input type="hidden" name="redirectTo" value={loaderData.redirectTo} />
+        <VStack gap="4" align="stretch">
+          <Heading fontWeight="light" color="white" textAlign="center">
+            Admin
+          </Heading>
+          <Input name="password" type="password" placeholder="Password" autoFocus color="white" borderColor="gray.600" />
+          {actionData?.error && (
+            <Text color="red.400" fontSize="sm">
+              {actionData.error}
+            </Text>
+          )}
+          <Button type="submit" colorPalette="blue" loading={navigation.state === "submitting"}>
+            Sign In
+          </Button>
+        </VStack>
+      </Form>
+    </Box>
+  )
+}
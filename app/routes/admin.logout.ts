@@ -0,0 +1,6 @@
+import type { Route } from "./+types/admin.logout"
+import { destroyAdminSession } from "~/lib/admin.server"
+
+export async function action({ request }: Route.ActionArgs) {
+    return destroyAdminSession(request)
+}
@@ -0,0 +1,105 @@
+import { Box, Button, Heading, HStack, Image, Table, Text, VStack } from "@chakra-ui/react"
+import { Link } from "react-router"
+import type { Route } from "./+types/admin.skips"
+import { db } from "~/db.server"
+import { requireAdmin } from "~/lib/admin.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { mostSkippedPairs } from "~/lib/pairing.server"
+
+const PAIR_LIMIT = 100
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const pairs = await mostSkippedPairs(PAIR_LIMIT)
+  const images = await db.image.findMany({
+    where: { id: { in: pairs.flatMap(pair => [pair.imageAId, pair.imageBId]) } },
+    select: { id: true, name: true, url: true, hiddenAt: true, collection: { select: { name: true } } }
+  })
+  const imagesById = new Map(images.map(image => [image.id, image]))
+
+  return {
+    pairs: pairs
+      .filter(pair => imagesById.has(pair.imageAId) && imagesById.has(pair.imageBId))
+      .map(pair => ({ ...pair, imageA: imagesById.get(pair.imageAId)!, imageB: imagesById.get(pair.imageBId)! }))
+  }
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin - Skipped Pairs" }]
+}
+
+type PairImage = Route.ComponentProps["loaderData"]["pairs"][number]["imageA"]
+
+function PairImageCell({ image }: { image: PairImage }) {
+  return (
+    <Table.Cell>
+      <HStack gap="3">
+        <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} boxSize="48px" objectFit="cover" borderRadius="md" loading="lazy" />
+        <VStack gap="0" align="start">
+          <Link to={`/image/${image.id}`}>
+            <Text color="white" _hover={{ textDecoration: "underline" }}>{image.name}</Text>
+          </Link>
+          <Text fontSize="xs" color="gray.400">
+            {image.collection.name}{image.hiddenAt ? " · hidden" : ""}
+          </Text>
+        </VStack>
+      </HStack>
+    </Table.Cell>
+  )
+}
+
+export default function AdminSkips({ loaderData }: Route.ComponentProps) {
+  const { pairs } = loaderData
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="7xl" mx="auto" minH="100vh" color="white">
+      <VStack gap="6" align="stretch">
+        <HStack justifyContent="space-between">
+          <Heading fontWeight="light" size="2xl">
+            Skipped Pairs
+          </Heading>
+          <Button asChild variant="ghost" color="gray.300">
+            <Link to="/admin">Back to Images</Link>
+          </Button>
+        </HStack>
+
+        <Text color="gray.400" fontSize="sm">
+          Pairs voters passed over most often. Frequently skipped pairs are shown less; pairs that are almost always
+          skipped may be near-duplicates worth hiding. Skips from quarantined sessions aren't counted.
+        </Text>
+
+        {pairs.length === 0 ? (
+          <Text color="gray.400">No pairs have been skipped yet.</Text>
+        ) : (
+          <Table.Root size="sm" variant="outline">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeader>Image</Table.ColumnHeader>
+                <Table.ColumnHeader>Image</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Skips</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Votes</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Skip Rate</Table.ColumnHeader>
+                <Table.ColumnHeader>Last Skipped</Table.ColumnHeader>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {pairs.map(pair => (
+                <Table.Row key={`${pair.imageAId}-${pair.imageBId}`}>
+                  <PairImageCell image={pair.imageA} />
+                  <PairImageCell image={pair.imageB} />
+                  <Table.Cell textAlign="end">{pair.skips}</Table.Cell>
+                  <Table.Cell textAlign="end">{pair.votes}</Table.Cell>
+                  <Table.Cell textAlign="end">{Math.round(pair.skips / (pair.skips + pair.votes) * 100)}%</Table.Cell>
+                  <Table.Cell fontSize="xs" color="gray.400">
+                    {new Date(pair.lastSkippedAt).toLocaleString()}
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,153 @@
+import { Box, Button, Heading, HStack, Input, NativeSelect, Table, Text, VStack } from "@chakra-ui/react"
+import { data, Form, Link, useNavigation } from "react-router"
+import type { Route } from "./+types/admin.snapshots"
+import { db } from "~/db.server"
+import { requireAdmin } from "~/lib/admin.server"
+import { collectionPaths, listCollections } from "~/lib/collections.server"
+import { deleteSnapshot, listSnapshots, takeSnapshots } from "~/lib/snapshots.server"
+
+const SNAPSHOT_LIMIT = 200
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const [collections, snapshots] = await Promise.all([listCollections(), listSnapshots(db, { limit: SNAPSHOT_LIMIT })])
+  return {
+    collections,
+    snapshots: snapshots.map(snapshot => ({ ...snapshot, moversPath: collectionPaths(snapshot.collection).movers }))
+  }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
+
+  const formData = await request.formData()
+  const intent = String(formData.get("intent"))
+
+  if (intent === "take") {
+    const slug = String(formData.get("collection") ?? "")
+    const collection = slug ? await db.collection.findUnique({ where: { slug }, select: { id: true } }) : null
+    if (slug && !collection) {
+      return data({ error: "Collection not found" }, { status: 404 })
+    }
+
+    const label = String(formData.get("label") ?? "").trim()
+    const results = await takeSnapshots(db, { collectionId: collection?.id, label: label || undefined })
+    const images = results.reduce((sum, result) => sum + (result.snapshot?.imageCount ?? 0), 0)
+    return { message: `Snapshotted ${results.length} ${results.length === 1 ? "collection" : "collections"} (${images} images)` }
+  }
+
+  if (intent === "delete") {
+    await deleteSnapshot(db, Number(formData.get("id")))
+    return { message: "Deleted snapshot" }
+  }
+
+  return data({ error: `Unknown action "${intent}"` }, { status: 400 })
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin - Snapshots" }]
+}
+
+export default function AdminSnapshots({ loaderData, actionData }: Route.ComponentProps) {
+  const { collections, snapshots } = loaderData
+  const navigation = useNavigation()
+  const busy = navigation.state !== "idle"
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="7xl" mx="auto" minH="100vh" color="white">
+      <VStack gap="6" align="stretch">
+        <HStack justifyContent="space-between">
+          <Heading fontWeight="light" size="2xl">
+            Snapshots
+          </Heading>
+          <Button asChild variant="ghost" color="gray.300">
+            <Link to="/admin">Back to Images</Link>
+          </Button>
+        </HStack>
+
+        <Text color="gray.400" fontSize="sm">
+          Each snapshot records every visible image's rank and rating. The leaderboard shows rank changes since the
+          latest one, and the movers page compares any two. Schedule `npm run snapshot -- --every 24` to take them
+          automatically.
+        </Text>
+
+        <Form method="post">
+          <HStack gap="2" flexWrap="wrap">
+            <NativeSelect.Root w="48" borderColor="gray.600">
+              <NativeSelect.Field name="collection" defaultValue="">
+                <option value="">All collections</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.slug}>{collection.name}</option>
+                ))}
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <Input name="label" placeholder="Label (optional)" maxW="xs" borderColor="gray.600" />
+            <Button type="submit" name="intent" value="take" colorPalette="blue" loading={busy} disabled={busy}>
+              Take Snapshot
+            </Button>
+          </HStack>
+        </Form>
+
+        {actionData && (
+          <Text color={"error" in actionData ? "red.400" : "green.400"}>
+            {"error" in actionData ? actionData.error : actionData.message}
+          </Text>
+        )}
+
+        {snapshots.length === 0 ? (
+          <Text color="gray.400">No snapshots yet.</Text>
+        ) : (
+          <Table.Root size="sm" variant="outline">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeader>Taken</Table.ColumnHeader>
+                <Table.ColumnHeader>Collection</Table.ColumnHeader>
+                <Table.ColumnHeader>Label</Table.ColumnHeader>
+                <Table.ColumnHeader textAlign="end">Images</Table.ColumnHeader>
+                <Table.ColumnHeader />
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {snapshots.map(snapshot => (
+                <Table.Row key={snapshot.id}>
+                  <Table.Cell fontSize="xs" color="gray.400">
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                  </Table.Cell>
+                  <Table.Cell>{snapshot.collection.name}</Table.Cell>
+                  <Table.Cell>{snapshot.label ?? "-"}</Table.Cell>
+                  <Table.Cell textAlign="end">{snapshot.imageCount}</Table.Cell>
+                  <Table.Cell>
+                    <HStack gap="2" justifyContent="flex-end">
+                      <Button asChild size="xs" variant="ghost" color="gray.300">
+                        <Link to={`${snapshot.moversPath}?to=${snapshot.id}`}>Movers</Link>
+                      </Button>
+                      <Form method="post">
+                        <input type="hidden" name="id" value={snapshot.id} />
+                        <Button
+                          type="submit"
+                          name="intent"
+                          value="delete"
+                          size="xs"
+                          variant="ghost"
+                          color="red.400"
+                          disabled={busy}
+                          onClick={event => {
+                            if (!confirm("Delete this snapshot?")) event.preventDefault()
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </Form>
+                    </HStack>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,349 @@
+import { Badge, Box, Button, Heading, HStack, Image, Input, NativeSelect, Table, Text, VStack } from "@chakra-ui/react"
+import type { Prisma } from "@prisma/client"
+import { data, Form, Link, useNavigation } from "react-router"
+import type { Route } from "./+types/admin"
+import { db } from "~/db.server"
+import { requireAdmin } from "~/lib/admin.server"
+import { listCollections } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { notifyLeaderboardChanged } from "~/lib/live-updates"
+import { currentRatingEngine } from "~/lib/replay.server"
+
+const PAGE_SIZE = 50
+
+const statusFilters = {
+  visible: { hiddenAt: null },
+  hidden: { hiddenAt: { not: null } },
+  all: {}
+} satisfies Record<string, Prisma.ImageWhereInput>
+
+const sortOrders = {
+  rating: [{ elo: "desc" }, { id: "asc" }],
+  votes: [{ matchCount: "desc" }, { id: "asc" }],
+  recent: [{ createdAt: "desc" }, { id: "desc" }],
+  name: [{ name: "asc" }, { id: "asc" }]
+} satisfies Record<string, Prisma.ImageOrderByWithRelationInput[]>
+
+function oneOf<T extends string>(value: string | null, options: Record<T, unknown>, fallback: T): T {
+  return value !== null && Object.hasOwn(options, value) ? value as T : fallback
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const url = new URL(request.url)
+  const filters = {
+    collection: url.searchParams.get("collection") ?? "",
+    status: oneOf(url.searchParams.get("status"), statusFilters, "all"),
+    sort: oneOf(url.searchParams.get("sort"), sortOrders, "recent"),
+    q: url.searchParams.get("q")?.trim() ?? ""
+  }
+  const page = Math.max(1, Math.floor(Number(url.searchParams.get("page"))) || 1)
+
+  const collections = await listCollections()
+  const collection = collections.find(c => c.slug === filters.collection)
+  const where: Prisma.ImageWhereInput = {
+    ...statusFilters[filters.status],
+    ...(collection && { collectionId: collection.id }),
+    ...(filters.q && { name: { contains: filters.q, mode: "insensitive" } })
+  }
+
+  const [total, images] = await Promise.all([
+    db.image.count({ where }),
+    db.image.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        url: true,
+        elo: true,
+        matchCount: true,
+        hiddenAt: true,
+        createdAt: true,
+        collection: { select: { name: true } }
+      },
+      orderBy: sortOrders[filters.sort],
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE
+    })
+  ])
+
+  return {
+    collections,
+    filters,
+    images,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+    total
+  }
+}
+
+function parseIds(values: FormDataEntryValue[]) {
+  return values.map(Number).filter(id => Number.isInteger(id) && id > 0)
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
+
+  const formData = await request.formData()
+  const intent = String(formData.get("intent"))
+  const ids = parseIds(formData.getAll("id"))
+
+  if (ids.length === 0) {
+    return data({ error: "Select at least one image" }, { status: 400 })
+  }
+
+  const where = { id: { in: ids } }
+  const initial = (await currentRatingEngine(db)).initial()
+  // Looked up before a delete removes the images; their collections' live leaderboards are told about the change
+  const images = await db.image.findMany({ where, select: { collectionId: true } })
+  const changed = () => notifyLeaderboardChanged(db, images.map(image => image.collectionId))
+
+  switch (intent) {
+    case "rename": {
+      const name = String(formData.get("name") ?? "").trim()
+      if (!name || name.length > 200) {
+        return data({ error: "Names must be between 1 and 200 characters" }, { status: 400 })
+      }
+      await db.image.update({ where: { id: ids[0] }, data: { name } })
+      await changed()
+      return { message: `Renamed to "${name}"` }
+    }
+    case "hide": {
+      const { count } = await db.image.updateMany({ where: { ...where, hiddenAt: null }, data: { hiddenAt: new Date() } })
+      await changed()
+      return { message: `Hid ${count} ${count === 1 ? "image" : "images"}` }
+    }
+    case "restore": {
+      const { count } = await db.image.updateMany({ where: { ...where, hiddenAt: { not: null } }, data: { hiddenAt: null } })
+      await changed()
+      return { message: `Restored ${count} ${count === 1 ? "image" : "images"}` }
+    }
+    case "reset": {
+      // Votes stay in the history, so a later `npm run replay` recomputes these ratings from scratch
+      const { count } = await db.image.updateMany({
+        where,
+        data: { elo: initial.rating, deviation: initial.deviation, volatility: initial.volatility, matchCount: 0 }
+      })
+      await changed()
+      return { message: `Reset ${count} ${count === 1 ? "rating" : "ratings"}` }
+    }
+    case "delete": {
+      // Deleting removes the image's matches too; hiding keeps them
+      const { count } = await db.image.deleteMany({ where })
+      await changed()
+      return { message: `Deleted ${count} ${count === 1 ? "image" : "images"}` }
+    }
+    default:
+      return data({ error: `Unknown action "${intent}"` }, { status: 400 })
+  }
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin - Images" }]
+}
+
+export default function Admin({ loaderData, actionData }: Route.ComponentProps) {
+  const { collections, filters, images, page, pageCount, total } = loaderData
+  const navigation = useNavigation()
+  const busy = navigation.state !== "idle"
+
+  const pageLink = (target: number) => {
+    const params = new URLSearchParams({ ...filters, page: String(target) })
+    return `?${params}`
+  }
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="7xl" mx="auto" minH="100vh" color="white">
+      <VStack gap="6" align="stretch">
+        <HStack justifyContent="space-between">
+          <Heading fontWeight="light" size="2xl">
+            Images
+          </Heading>
+          <HStack gap="2">
+            <Button asChild variant="outline" color="white" borderColor="gray.600">
+              <Link to="/admin/upload">Upload Images</Link>
+            </Button>
+            <Button asChild variant="outline" color="white" borderColor="gray.600">
+              <Link to="/admin/votes">Vote Review</Link>
+            </Button>
+            <Button asChild variant="outline" color="white" borderColor="gray.600">
+              <Link to="/admin/skips">Skipped Pairs</Link>
+            </Button>
+            <Button asChild variant="outline" color="white" borderColor="gray.600">
+              <Link to="/admin/snapshots">Snapshots</Link>
+            </Button>
+            <Button asChild variant="ghost" color="gray.300">
+              <Link to="/">View Site</Link>
+            </Button>
+            <Form method="post" action="/admin/logout">
+              <Button type="submit" variant="outline" color="gray.300" borderColor="gray.600">
+                Sign Out
+              </Button>
+            </Form>
+          </HStack>
+        </HStack>
+
+        <Form method="get">
+          <HStack gap="2" flexWrap="wrap">
+            <Input name="q" defaultValue={filters.q} placeholder="Search by name" maxW="xs" borderColor="gray.600" />
+            <NativeSelect.Root w="48" borderColor="gray.600">
+              <NativeSelect.Field name="collection" defaultValue={filters.collection}>
+                <option value="">All collections</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.slug}>{collection.name}</option>
+                ))}
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <NativeSelect.Root w="36" borderColor="gray.600">
+              <NativeSelect.Field name="status" defaultValue={filters.status}>
+                <option value="all">All</option>
+                <option value="visible">Visible</option>
+                <option value="hidden">Hidden</option>
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <NativeSelect.Root w="36" borderColor="gray.600">
+              <NativeSelect.Field name="sort" defaultValue={filters.sort}>
+                <option value="recent">Newest</option>
+                <option value="rating">Rating</option>
+                <option value="votes">Votes</option>
+                <option value="name">Name</option>
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <Button type="submit" variant="outline" color="white" borderColor="gray.600">
+              Filter
+            </Button>
+          </HStack>
+        </Form>
+
+        <HStack gap="2" flexWrap="wrap">
+          <Text color="gray.400" fontSize="sm">
+            Export {collections.find(c => c.slug === filters.collection)?.name ?? "all collections"}:
+          </Text>
+          {(["rankings", "votes"] as const).map(dataset => (["csv", "json", "ndjson"] as const).map(format => (
+            <Button key={`${dataset}-${format}`} asChild size="xs" variant="ghost" color="gray.300">
+              <a href={`/admin/export/${dataset}?${new URLSearchParams({ format, ...(filters.collection && { collection: filters.collection }) })}`} download>
+                {dataset === "rankings" ? "Rankings" : "Votes"} ({format.toUpperCase()})
+              </a>
+            </Button>
+          )))}
+        </HStack>
+
+        {actionData && (
+          <Text color={"error" in actionData ? "red.400" : "green.400"}>
+            {"error" in actionData ? actionData.error : actionData.message}
+          </Text>
+        )}
+
+        {/* Row checkboxes belong to this form through their form="bulk" attribute */}
+        <Form method="post" id="bulk">
+          <HStack gap="2" flexWrap="wrap">
+            <Text color="gray.400" fontSize="sm">
+              With selected:
+            </Text>
+            <Button type="submit" name="intent" value="hide" size="sm" variant="outline" color="white" borderColor="gray.600" disabled={busy}>
+              Hide
+            </Button>
+            <Button type="submit" name="intent" value="restore" size="sm" variant="outline" color="white" borderColor="gray.600" disabled={busy}>
+              Restore
+            </Button>
+            <Button type="submit" name="intent" value="reset" size="sm" variant="outline" color="white" borderColor="gray.600" disabled={busy}>
+              Reset Rating
+            </Button>
+            <Button
+              type="submit"
+              name="intent"
+              value="delete"
+              size="sm"
+              colorPalette="red"
+              disabled={busy}
+              onClick={event => {
+                if (!confirm("Delete the selected images and their vote history? This cannot be undone.")) {
+                  event.preventDefault()
+                }
+              }}
+            >
+              Delete
+            </Button>
+          </HStack>
+        </Form>
+
+        <Text color="gray.400" fontSize="sm">
+          {total} images
+        </Text>
+
+        <Table.Root size="sm" variant="outline">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeader w="8" />
+              <Table.ColumnHeader>Image</Table.ColumnHeader>
+              <Table.ColumnHeader>Name</Table.ColumnHeader>
+              <Table.ColumnHeader>Collection</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="end">Rating</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="end">Votes</Table.ColumnHeader>
+              <Table.ColumnHeader>Status</Table.ColumnHeader>
+              <Table.ColumnHeader />
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {images.map(image => (
+              <Table.Row key={image.id}>
+                <Table.Cell>
+                  <input type="checkbox" name="id" value={image.id} form="bulk" aria-label={`Select ${image.name}`} />
+                </Table.Cell>
+                <Table.Cell>
+                  <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} w="60px" h="60px" objectFit="cover" borderRadius="md" loading="lazy" />
+                </Table.Cell>
+                <Table.Cell>
+                  <Form method="post">
+                    <input type="hidden" name="id" value={image.id} />
+                    <HStack gap="2">
+                      <Input name="name" defaultValue={image.name} size="sm" borderColor="gray.600" />
+                      <Button type="submit" name="intent" value="rename" size="sm" variant="ghost" disabled={busy}>
+                        Save
+                      </Button>
+                    </HStack>
+                  </Form>
+                </Table.Cell>
+                <Table.Cell>{image.collection.name}</Table.Cell>
+                <Table.Cell textAlign="end">{Math.round(image.elo)}</Table.Cell>
+                <Table.Cell textAlign="end">{image.matchCount}</Table.Cell>
+                <Table.Cell>
+                  {image.hiddenAt ? <Badge colorPalette="red">Hidden</Badge> : <Badge colorPalette="green">Visible</Badge>}
+                </Table.Cell>
+                <Table.Cell>
+                  <Form method="post">
+                    <input type="hidden" name="id" value={image.id} />
+                    <HStack gap="1">
+                      <Button type="submit" name="intent" value={image.hiddenAt ? "restore" : "hide"} size="xs" variant="outline" borderColor="gray.600" disabled={busy}>
+                        {image.hiddenAt ? "Restore" : "Hide"}
+                      </Button>
+                      <Button type="submit" name="intent" value="reset" size="xs" variant="outline" borderColor="gray.600" disabled={busy}>
+                        Reset
+                      </Button>
+                    </HStack>
+                  </Form>
+                </Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table.Root>
+
+        <HStack gap="4" justifyContent="center">
+          <Button asChild variant="outline" color="white" borderColor="gray.600" disabled={page <= 1}>
+            {page <= 1 ? <span>Previous</span> : <Link to={pageLink(page - 1)}>Previous</Link>}
+          </Button>
+          <Text color="gray.400">
+            Page {page} of {pageCount}
+          </Text>
+          <Button asChild variant="outline" color="white" borderColor="gray.600" disabled={page >= pageCount}>
+            {page >= pageCount ? <span>Next</span> : <Link to={pageLink(page + 1)}>Next</Link>}
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  )
+}
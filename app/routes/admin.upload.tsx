@@ -0,0 +1,72 @@
+import { Box, Button, Heading, HStack, NativeSelect, VStack } from "@chakra-ui/react"
+import { data, Link } from "react-router"
+import type { Route } from "./+types/admin.upload"
+import { UploadForm } from "~/components/upload-form"
+import { requireAdmin } from "~/lib/admin.server"
+import { listCollections } from "~/lib/collections.server"
+import { readUploadForm, uploadedFiles, uploadImages, UploadError } from "~/lib/uploads.server"
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  return { collections: await listCollections() }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
+
+  let formData: FormData
+  try {
+    formData = await readUploadForm(request)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return data({ error: error.message, results: [] }, { status: error.status })
+    }
+    throw error
+  }
+
+  const collections = await listCollections()
+  const collection = collections.find(c => c.slug === formData.get("collection"))
+  if (!collection) {
+    return data({ error: "Choose a collection", results: [] }, { status: 400 })
+  }
+
+  const files = uploadedFiles(formData)
+  if (files.length === 0) {
+    return data({ error: "Choose at least one file", results: [] }, { status: 400 })
+  }
+
+  return { error: undefined, results: await uploadImages(files, collection, { hidden: false }) }
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin - Upload Images" }]
+}
+
+export default function AdminUpload({ loaderData, actionData }: Route.ComponentProps) {
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="2xl" mx="auto" minH="100vh" color="white">
+      <VStack gap="6" align="stretch">
+        <HStack justifyContent="space-between">
+          <Heading fontWeight="light" size="2xl">
+            Upload Images
+          </Heading>
+          <Button asChild variant="ghost" color="gray.300">
+            <Link to="/admin">Back to Images</Link>
+          </Button>
+        </HStack>
+
+        <UploadForm results={actionData?.results} error={actionData?.error}>
+          <NativeSelect.Root borderColor="gray.600">
+            <NativeSelect.Field name="collection">
+              {loaderData.collections.map(collection => (
+                <option key={collection.id} value={collection.slug}>{collection.name}</option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </UploadForm>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,239 @@
+import { Badge, Box, Button, Heading, HStack, NativeSelect, Table, Text, VStack } from "@chakra-ui/react"
+import type { Prisma, SessionReviewStatus } from "@prisma/client"
+import { data, Form, Link, useNavigation } from "react-router"
+import type { Route } from "./+types/admin.votes"
+import { db } from "~/db.server"
+import { requireAdmin } from "~/lib/admin.server"
+import { currentRatingSettings, replayRatings } from "~/lib/replay.server"
+import { analyzeVoteQuality, reviewSession, type VoteFlagEvidence } from "~/lib/vote-quality.server"
+
+const PAGE_SIZE = 100
+
+const statusFilters = {
+  flagged: { status: { in: ["DOWNWEIGHTED", "QUARANTINED"] } },
+  quarantined: { status: "QUARANTINED" },
+  downweighted: { status: "DOWNWEIGHTED" },
+  cleared: { status: "CLEARED" },
+  all: {}
+} satisfies Record<string, Prisma.SessionReviewWhereInput>
+
+const reviewStatuses: Record<string, SessionReviewStatus> = {
+  clear: "CLEARED",
+  downweight: "DOWNWEIGHTED",
+  quarantine: "QUARANTINED"
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  await requireAdmin(request)
+
+  const url = new URL(request.url)
+  const status = url.searchParams.get("status") ?? "flagged"
+  const filter = Object.hasOwn(statusFilters, status) ? status as keyof typeof statusFilters : "flagged"
+
+  const [total, reviews] = await Promise.all([
+    db.sessionReview.count({ where: statusFilters[filter] }),
+    db.sessionReview.findMany({
+      where: statusFilters[filter],
+      orderBy: [{ analyzedAt: "desc" }, { sessionId: "asc" }],
+      take: PAGE_SIZE
+    })
+  ])
+
+  return { filter, reviews, total }
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  await requireAdmin(request)
+
+  const formData = await request.formData()
+  const intent = String(formData.get("intent"))
+
+  let reweighted: boolean
+  let message: string
+  if (intent === "analyze") {
+    const result = await analyzeVoteQuality(db, { dryRun: false })
+    reweighted = result.reweightedSessions > 0
+    message = `Analyzed ${result.analyzedSessions} sessions, ${result.verdicts.filter(verdict => verdict.status).length} flagged`
+  } else if (Object.hasOwn(reviewStatuses, intent)) {
+    const sessionId = String(formData.get("sessionId") ?? "")
+    reweighted = await reviewSession(db, sessionId, reviewStatuses[intent])
+    message = `Marked session as ${reviewStatuses[intent].toLowerCase()}`
+  } else {
+    return data({ error: `Unknown action "${intent}"` }, { status: 400 })
+  }
+
+  // Past votes only count differently once ratings are rebuilt from the history
+  if (reweighted) {
+    const { matchCount } = await replayRatings(db, { ...await currentRatingSettings(db), dryRun: false })
+    message += `; replayed ${matchCount} votes`
+  }
+
+  return { message }
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Admin - Vote Review" }]
+}
+
+const statusColors: Record<SessionReviewStatus, string> = {
+  QUARANTINED: "red",
+  DOWNWEIGHTED: "orange",
+  CLEARED: "green"
+}
+
+function percent(value: unknown) {
+  return `${Math.round(Number(value) * 100)}%`
+}
+
+// One line of evidence per flag, from the details stored by the analysis
+function describeFlag(flag: string, evidence: VoteFlagEvidence) {
+  switch (flag) {
+    case "side-bias": {
+      const details = evidence["side-bias"]
+      return `${percent(details?.share)} of votes for the ${String(details?.side).toLowerCase()} image`
+    }
+    case "fast": {
+      const details = evidence.fast
+      return `${percent(details?.share)} of votes under ${details?.thresholdMs} ms`
+    }
+    case "favourite": {
+      const details = evidence.favourite
+      return `Chose image #${details?.imageId} ${details?.wins} of ${details?.shown} times (others: ${percent(details?.otherWinRate)})`
+    }
+    case "coordinated": {
+      const details = evidence.coordinated
+      return `One of ${details?.sessions} sessions backing image #${details?.imageId}`
+    }
+    case "bot": {
+      const userAgent = evidence.bot?.userAgent
+      return `Bot user agent${userAgent ? `: ${userAgent}` : ""}`
+    }
+    default:
+      return flag
+  }
+}
+
+export default function AdminVotes({ loaderData, actionData }: Route.ComponentProps) {
+  const { filter, reviews, total } = loaderData
+  const navigation = useNavigation()
+  const busy = navigation.state !== "idle"
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="7xl" mx="auto" minH="100vh" color="white">
+      <VStack gap="6" align="stretch">
+        <HStack justifyContent="space-between">
+          <Heading fontWeight="light" size="2xl">
+            Vote Review
+          </Heading>
+          <Button asChild variant="ghost" color="gray.300">
+            <Link to="/admin">Back to Images</Link>
+          </Button>
+        </HStack>
+
+        <Text color="gray.400" fontSize="sm">
+          Quarantined sessions' votes don't count; down-weighted ones count for less. Re-including a session counts
+          its votes in full again. Ratings are replayed whenever a change affects past votes.
+        </Text>
+
+        <HStack gap="2" flexWrap="wrap">
+          <Form method="get">
+            <HStack gap="2">
+              <NativeSelect.Root w="48" borderColor="gray.600">
+                <NativeSelect.Field name="status" defaultValue={filter}>
+                  <option value="flagged">Flagged</option>
+                  <option value="quarantined">Quarantined</option>
+                  <option value="downweighted">Down-weighted</option>
+                  <option value="cleared">Re-included</option>
+                  <option value="all">All</option>
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <Button type="submit" variant="outline" color="white" borderColor="gray.600">
+                Filter
+              </Button>
+            </HStack>
+          </Form>
+          <Form method="post">
+            <Button type="submit" name="intent" value="analyze" colorPalette="blue" loading={busy} disabled={busy}>
+              Run Analysis
+            </Button>
+          </Form>
+        </HStack>
+
+        {actionData && (
+          <Text color={"error" in actionData ? "red.400" : "green.400"}>
+            {"error" in actionData ? actionData.error : actionData.message}
+          </Text>
+        )}
+
+        <Text color="gray.400" fontSize="sm">
+          {total} sessions{total > reviews.length ? `, showing the latest ${reviews.length}` : ""}
+        </Text>
+
+        <Table.Root size="sm" variant="outline">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeader>Session</Table.ColumnHeader>
+              <Table.ColumnHeader>Evidence</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="end">Votes</Table.ColumnHeader>
+              <Table.ColumnHeader>Status</Table.ColumnHeader>
+              <Table.ColumnHeader>Analyzed</Table.ColumnHeader>
+              <Table.ColumnHeader />
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {reviews.map(review => {
+              const evidence = (review.details ?? {}) as VoteFlagEvidence
+              return (
+                <Table.Row key={review.sessionId}>
+                  <Table.Cell fontFamily="mono" fontSize="xs" title={review.sessionId}>
+                    {review.sessionId.slice(0, 12)}
+                  </Table.Cell>
+                  <Table.Cell>
+                    <VStack gap="1" align="start">
+                      {review.flags.map(flag => (
+                        <HStack key={flag} gap="2">
+                          <Badge>{flag}</Badge>
+                          <Text fontSize="xs" color="gray.300">{describeFlag(flag, evidence)}</Text>
+                        </HStack>
+                      ))}
+                    </VStack>
+                  </Table.Cell>
+                  <Table.Cell textAlign="end">{review.voteCount}</Table.Cell>
+                  <Table.Cell>
+                    <Badge colorPalette={statusColors[review.status]}>{review.status.toLowerCase()}</Badge>
+                  </Table.Cell>
+                  <Table.Cell fontSize="xs" color="gray.400">
+                    {new Date(review.analyzedAt).toLocaleString()}
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Form method="post">
+                      <input type="hidden" name="sessionId" value={review.sessionId} />
+                      <HStack gap="1">
+                        {review.status !== "CLEARED" && (
+                          <Button type="submit" name="intent" value="clear" size="xs" variant="outline" borderColor="gray.600" disabled={busy}>
+                            Re-include
+                          </Button>
+                        )}
+                        {review.status !== "DOWNWEIGHTED" && (
+                          <Button type="submit" name="intent" value="downweight" size="xs" variant="outline" borderColor="gray.600" disabled={busy}>
+                            Down-weight
+                          </Button>
+                        )}
+                        {review.status !== "QUARANTINED" && (
+                          <Button type="submit" name="intent" value="quarantine" size="xs" variant="outline" borderColor="gray.600" disabled={busy}>
+                            Quarantine
+                          </Button>
+                        )}
+                      </HStack>
+                    </Form>
+                  </Table.Cell>
+                </Table.Row>
+              )
+            })}
+          </Table.Body>
+        </Table.Root>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,20 @@
+import type { Route } from "./+types/api.v1.images.$id"
+import { apiError, handleApiRequest, requireApiKey } from "~/lib/api.server"
+import { getImageDetail } from "~/lib/image-detail.server"
+
+// GET /api/v1/images/:id
+// Rating, rank, record, rating history and head-to-head results for one image
+export async function loader({ request, params }: Route.LoaderArgs) {
+    return handleApiRequest(async () => {
+        await requireApiKey(request)
+
+        const id = Number(params.id)
+        const detail = Number.isInteger(id) ? await getImageDetail(id) : null
+
+        if (!detail) {
+            throw apiError(404, "not_found", "Image not found")
+        }
+
+        return Response.json(detail)
+    })
+}
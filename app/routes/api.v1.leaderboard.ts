@@ -0,0 +1,43 @@
+import type { Route } from "./+types/api.v1.leaderboard"
+import { apiError, handleApiRequest, requireApiKey } from "~/lib/api.server"
+import { getCollection } from "~/lib/collections.server"
+import { getLeaderboardPage, isLeaderboardSort, leaderboardSorts } from "~/lib/leaderboard.server"
+
+const MAX_LIMIT = 100
+
+function optionalPositiveInt(url: URL, name: string) {
+    const value = url.searchParams.get(name)
+    if (value === null) return undefined
+
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw apiError(400, "invalid_request", `${name} must be a positive integer`)
+    }
+    return parsed
+}
+
+// GET /api/v1/leaderboard?collection=<slug>&sort=rating|votes|recent&q=<name>&after=<id>&before=<id>&rank=<n>&limit=<n>
+export async function loader({ request }: Route.LoaderArgs) {
+    return handleApiRequest(async () => {
+        await requireApiKey(request)
+        const url = new URL(request.url)
+
+        const sort = url.searchParams.get("sort") ?? "rating"
+        if (!isLeaderboardSort(sort)) {
+            throw apiError(400, "invalid_request", `sort must be one of ${leaderboardSorts.join(", ")}`)
+        }
+
+        const collection = await getCollection(url.searchParams.get("collection") ?? undefined)
+        const page = await getLeaderboardPage({
+            collectionId: collection.id,
+            sort,
+            search: url.searchParams.get("q")?.trim(),
+            after: optionalPositiveInt(url, "after"),
+            before: optionalPositiveInt(url, "before"),
+            jumpToRank: optionalPositiveInt(url, "rank"),
+            limit: Math.min(MAX_LIMIT, optionalPositiveInt(url, "limit") ?? 50)
+        })
+
+        return Response.json({ collection, ...page })
+    })
+}
@@ -0,0 +1,23 @@
+import type { Route } from "./+types/api.v1.pair"
+import { apiSessionId, handleApiRequest, requireApiKey } from "~/lib/api.server"
+import { getCollection } from "~/lib/collections.server"
+import { enforceRateLimit, rateLimitHeaders } from "~/lib/rate-limit"
+import { servePair } from "~/lib/voting.server"
+
+// GET /api/v1/pair?collection=<slug>
+// Returns the next pair to compare and the ticket to vote on it with
+export async function loader({ request }: Route.LoaderArgs) {
+    return handleApiRequest(async () => {
+        const apiKey = await requireApiKey(request)
+        const rateLimit = await enforceRateLimit("apiPair", { apiKey: String(apiKey.id) })
+        const url = new URL(request.url)
+
+        const collection = await getCollection(url.searchParams.get("collection") ?? undefined)
+        const pair = await servePair(collection.id, apiSessionId(apiKey, request))
+
+        const headers = rateLimitHeaders(rateLimit)
+        headers.set("Cache-Control", "no-store")
+
+        return Response.json({ collection, ...pair }, { headers })
+    })
+}
@@ -0,0 +1,32 @@
+import type { Route } from "./+types/api.v1.votes"
+import { apiSessionId, handleApiRequest, methodNotAllowed, readJsonBody, requireApiKey } from "~/lib/api.server"
+import { getClientIP, rateLimitHeaders } from "~/lib/rate-limit"
+import { castVote } from "~/lib/voting.server"
+
+export async function loader() {
+    return methodNotAllowed("POST")
+}
+
+// POST /api/v1/votes  { "winnerId": 1, "loserId": 2, "ticket": "<from /api/v1/pair>", "outcome": "win" | "draw" | "skip" }
+export async function action({ request }: Route.ActionArgs) {
+    return handleApiRequest(async () => {
+        if (request.method !== "POST") {
+            return methodNotAllowed("POST")
+        }
+
+        const apiKey = await requireApiKey(request)
+        const body = await readJsonBody(request)
+
+        const { vote, rateLimit } = await castVote({
+            winnerId: body.winnerId,
+            loserId: body.loserId,
+            ticket: body.ticket,
+            outcome: body.outcome,
+            sessionId: apiSessionId(apiKey, request),
+            clientIP: getClientIP(request),
+            apiKeyId: apiKey.id
+        })
+
+        return Response.json({ vote }, { status: 201, headers: rateLimitHeaders(rateLimit) })
+    })
+}
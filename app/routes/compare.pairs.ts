@@ -0,0 +1,29 @@
+import type { Route } from "./+types/compare.pairs"
+import { getCollection } from "~/lib/collections.server"
+import { checkRateLimit, getClientIP, rateLimitHeaders } from "~/lib/rate-limit"
+import { servePair } from "~/lib/voting.server"
+import { getVoterSession, sessionStorage } from "~/sessions.server"
+
+// Upper bound on ?count, the number of pairs the compare page prefetches at once
+const MAX_PAIRS = 5
+
+// Upcoming pairs for the compare page, each with its own ticket
+export async function loader({ request, params }: Route.LoaderArgs) {
+    const collection = await getCollection(params.slug)
+    const requested = Math.floor(Number(new URL(request.url).searchParams.get("count")))
+    const count = Math.min(MAX_PAIRS, Math.max(1, requested || 1))
+
+    const { session, sessionId } = await getVoterSession(request)
+
+    // Each pair takes several queries, so pair requests are limited like votes; the page retries after a pause
+    const rateLimit = await checkRateLimit("pairs", { ip: getClientIP(request), session: sessionId })
+    const headers = rateLimitHeaders(rateLimit)
+    headers.set("Cache-Control", "private, no-store")
+    headers.set("Set-Cookie", await sessionStorage.commitSession(session))
+    if (rateLimit && !rateLimit.allowed) {
+        return Response.json({ error: "Too many requests. Please slow down." }, { status: 429, headers })
+    }
+
+    const pairs = await Promise.all(Array.from({ length: count }, () => servePair(collection.id, sessionId)))
+    return Response.json({ pairs }, { headers })
+}
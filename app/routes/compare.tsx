@@ -1,9 +1,10 @@
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { Box, Button, Heading, Image, VStack, HStack, Text, Spinner, Center, IconButton } from "@chakra-ui/react"
-import { Form, useNavigation, Link } from "react-router"
+import { Form, Link } from "react-router"
 import type { Route } from "./+types/compare"
-import { useColorModeValue } from "~/components/ui/color-mode"
+import { toaster } from "~/components/ui/toaster"
 import { FaArrowLeft } from "react-icons/fa"
+import { imageVariantUrl } from "~/lib/image-variants"
 
 // Import server functions
 export { loader, action } from "./compare.server"
@@ -15,24 +16,198 @@ export function meta({ }: Route.MetaArgs) {
   ]
 }
 
-export default function Compare({ loaderData }: Route.ComponentProps) {
-  const { imageA, imageB } = loaderData
-  const navigation = useNavigation()
-  const isSubmitting = navigation.state === "submitting"
+type Pair = Pick<Route.ComponentProps["loaderData"], "imageA" | "imageB" | "ticket">
+
+// Upcoming pairs kept ready, with their images already downloaded
+const PREFETCH_PAIRS = 3
+// Attempts for a vote that fails on the network or with a server error before it's reported as lost
+const VOTE_ATTEMPTS = 3
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function preloadPair(pair: Pair) {
+  for (const image of [pair.imageA, pair.imageB]) {
+    new window.Image().src = imageVariantUrl(image.url, { w: 800 })
+  }
+}
+
+// The pair on screen and a queue of prefetched ones, so the next pair shows as soon as a vote is cast
+function usePairQueue(initial: Pair, pairsUrl: string) {
+  const [pairs, setPairs] = useState<{ current: Pair | null, upcoming: Pair[] }>({ current: initial, upcoming: [] })
+  const [loadError, setLoadError] = useState(false)
+  const [attempt, setAttempt] = useState(0)
+  const loading = useRef(false)
+  const activeUrl = useRef(pairsUrl)
+
+  // A new pair from the loader (e.g. after switching collection) starts a fresh queue
+  useEffect(() => {
+    activeUrl.current = pairsUrl
+    setPairs({ current: initial, upcoming: [] })
+  }, [initial.ticket, pairsUrl])
+
+  useEffect(() => {
+    const missing = PREFETCH_PAIRS - pairs.upcoming.length
+    if (missing <= 0 || loading.current) return
+
+    loading.current = true
+    fetch(`${pairsUrl}?count=${missing}`, { headers: { Accept: "application/json" } })
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Loading pairs failed with ${response.status}`)))
+      .then(({ pairs: loaded }: { pairs: Pair[] }) => {
+        // Pairs from a collection the page has since left
+        if (activeUrl.current !== pairsUrl) return
+        loaded.forEach(preloadPair)
+        setLoadError(false)
+        setPairs(state => state.current
+          ? { current: state.current, upcoming: [...state.upcoming, ...loaded] }
+          : { current: loaded[0] ?? null, upcoming: [...state.upcoming, ...loaded.slice(1)] })
+      })
+      .catch(error => {
+        console.error(error)
+        setLoadError(true)
+        setTimeout(() => setAttempt(count => count + 1), 3000)
+      })
+      .finally(() => {
+        loading.current = false
+      })
+  }, [pairs.upcoming.length, pairsUrl, attempt])
+
+  const advance = useCallback(() => {
+    setPairs(state => ({ current: state.upcoming[0] ?? null, upcoming: state.upcoming.slice(1) }))
+  }, [])
+
+  return { current: pairs.current, advance, loadError }
+}
+
+// Sends votes one at a time in the background. Votes over the rate limit wait and are sent again; network and
+// server errors are retried a few times, and votes that still fail or are rejected are reported with a toast.
+function useBackgroundVotes(voteUrl: string) {
+  const queue = useRef<FormData[]>([])
+  const sending = useRef(false)
+  const [rateLimited, setRateLimited] = useState<{ retryAfter: number }>()
+
+  const send = useCallback(async () => {
+    if (sending.current) return
+    sending.current = true
+
+    let attempts = 0
+    while (queue.current.length > 0) {
+      const vote = queue.current[0]
+      attempts++
+
+      let response: Response | undefined
+      try {
+        response = await fetch(voteUrl, { method: "POST", body: vote, headers: { Accept: "application/json" } })
+      } catch (error) {
+        console.error("Vote failed:", error)
+      }
+
+      const body = await response?.json().catch(() => undefined)
+      if (response?.status === 429) {
+        const retryAfter = Number(body?.retryAfter) || 1
+        setRateLimited({ retryAfter })
+        await sleep(retryAfter * 1000)
+        continue
+      }
+      if ((!response || response.status >= 500) && attempts < VOTE_ATTEMPTS) {
+        await sleep(1000 * 2 ** attempts)
+        continue
+      }
+
+      if (!response || !response.ok) {
+        toaster.create({
+          type: "error",
+          title: "Your vote wasn't counted",
+          description: body?.error ?? "Couldn't reach the server. Check your connection.",
+          closable: true
+        })
+      }
+      queue.current.shift()
+      attempts = 0
+    }
+
+    sending.current = false
+  }, [voteUrl])
+
+  const submitVote = useCallback((vote: FormData) => {
+    queue.current.push(vote)
+    send()
+  }, [send])
+
+  // Leaving with votes still queued would lose them
+  useEffect(() => {
+    const warnIfPending = (event: BeforeUnloadEvent) => {
+      if (queue.current.length > 0) event.preventDefault()
+    }
+    window.addEventListener("beforeunload", warnIfPending)
+    return () => window.removeEventListener("beforeunload", warnIfPending)
+  }, [])
+
+  return { submitVote, rateLimited }
+}
+
+// Seconds left before voting is allowed again after a 429
+function useRetryCountdown(rejection: { retryAfter?: number } | undefined) {
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  useEffect(() => {
+    if (!rejection?.retryAfter) return
+
+    const until = Date.now() + rejection.retryAfter * 1000
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((until - Date.now()) / 1000)))
+    tick()
+    const interval = setInterval(tick, 1000)
+    const timeout = setTimeout(() => clearInterval(interval), rejection.retryAfter * 1000 + 1000)
+    return () => {
+      clearInterval(interval)
+      clearTimeout(timeout)
+    }
+  }, [rejection])
+
+  return secondsLeft
+}
+
+export default function Compare({ loaderData, actionData }: Route.ComponentProps) {
+  const { collection, paths } = loaderData
+  const { current: pair, advance, loadError } = usePairQueue(loaderData, `${paths.compare}/pairs`)
+  const { submitVote, rateLimited } = useBackgroundVotes("/compare/vote")
+  // actionData is only set when a form was posted natively, before the page hydrated
+  const secondsLeft = Math.max(useRetryCountdown(actionData), useRetryCountdown(rateLimited))
+  const coolingDown = secondsLeft > 0
   const bgColor = ""
   const textColor = "white"
   const subTextColor = "gray.400"
   const borderColor = "gray.600"
   const hoverBorderColor = "gray.400"
 
+  // When the current pair appeared, so votes can say how long it was on screen (not how long it sat in the queue)
+  const shownAt = useRef(0)
+  useEffect(() => {
+    shownAt.current = performance.now()
+  }, [pair?.ticket])
+
   // Refs for form submissions
   const formARef = useRef<HTMLFormElement>(null)
   const formBRef = useRef<HTMLFormElement>(null)
+  const formTieRef = useRef<HTMLFormElement>(null)
+
+  // Votes go out in the background and the next pair is shown straight away. Votes made while rate limited
+  // would only be rejected again.
+  const vote = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (coolingDown || !pair) return
+
+    const formData = new FormData(event.currentTarget)
+    formData.set("displayedMs", String(Math.round(performance.now() - shownAt.current)))
+    submitVote(formData)
+    advance()
+  }
 
   // Add keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      if (isSubmitting) return
+      if (coolingDown) return
 
       if (event.key === '1') {
         event.preventDefault()
@@ -40,48 +215,67 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
       } else if (event.key === '2') {
         event.preventDefault()
         formBRef.current?.requestSubmit()
+      } else if (event.key === '3') {
+        event.preventDefault()
+        formTieRef.current?.requestSubmit()
       }
     }
 
     window.addEventListener('keydown', handleKeyPress)
     return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [isSubmitting])
+  }, [coolingDown])
 
-  if (isSubmitting) {
+  if (!pair) {
     return (
       <Center h="100vh">
         <VStack>
           <Spinner size="xl" color="blue.400" />
-          <Text color={textColor}>Updating ratings...</Text>
+          <Text color={textColor}>
+            {loadError ? "Couldn't load the next pair. Trying again..." : "Loading the next pair..."}
+          </Text>
         </VStack>
       </Center>
     )
   }
 
+  const { imageA, imageB, ticket } = pair
+
   return (
     <Box p="10" maxW="6xl" mx="auto" minH="100vh" bg={bgColor} position="relative">
       <VStack spacing="8">
         <HStack w="full" justifyContent="space-between" alignItems="center">
           <IconButton
             as={Link}
-            to="/"
+            to={paths.home}
             variant="ghost"
             color={textColor}
             _hover={{ bg: "gray.700" }}
           >
             <FaArrowLeft />
           </IconButton>
-          <Heading fontWeight="light" textAlign="center" color={textColor} flex="1">
-            Which image is better?
-          </Heading>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" color={textColor}>
+              Which image is better?
+            </Heading>
+            <Text fontSize="sm" color={subTextColor}>{collection.name}</Text>
+          </VStack>
           <Box w="120px" /> {/* Spacer for centering the heading */}
         </HStack>
 
+        {coolingDown && (
+          <Box w="full" p="4" borderWidth="1px" borderColor="orange.400" borderRadius="lg" bg="orange.950" role="status">
+            <Text color="orange.200" textAlign="center">
+              You're voting faster than we allow. You can vote again in {secondsLeft} second{secondsLeft === 1 ? "" : "s"}.
+            </Text>
+          </Box>
+        )}
+
         <HStack spacing="8" alignItems="flex-start" flexWrap="wrap" justifyContent="center">
           <VStack spacing="4" flex="1" minW="300px" maxW="600px">
-            <Form method="post" style={{ width: "100%" }}>
+            <Form method="post" style={{ width: "100%" }} onSubmit={vote}>
               <input type="hidden" name="winnerId" value={imageA.id} />
               <input type="hidden" name="loserId" value={imageB.id} />
+              <input type="hidden" name="ticket" value={ticket} />
 
               <Box
                 as="button"
@@ -97,13 +291,13 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
                 bg="transparent"
               >
                 <Image
-                  src={imageA.url}
+                  key={imageA.id}
+                  src={imageVariantUrl(imageA.url, { w: 800 })}
                   alt={imageA.name}
                   maxW="100%"
                   maxH={{ base: "40vh", md: "60vh" }}
                   height="auto"
                   objectFit="contain"
-                  loading="lazy"
                 />
               </Box>
             </Form>
@@ -113,14 +307,15 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
                 Elo: {Math.round(imageA.elo)}
               </Text> */}
 
-              <Form method="post" ref={formARef}>
+              <Form method="post" ref={formARef} onSubmit={vote}>
                 <input type="hidden" name="winnerId" value={imageA.id} />
                 <input type="hidden" name="loserId" value={imageB.id} />
+                <input type="hidden" name="ticket" value={ticket} />
                 <Button
                   type="submit"
                   colorScheme="blue"
                   size="lg"
-                  disabled={isSubmitting}
+                  disabled={coolingDown}
                 >
                   Choose This One
                 </Button>
@@ -129,9 +324,10 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
           </VStack>
 
           <VStack spacing="4" flex="1" minW="300px" maxW="600px">
-            <Form method="post" style={{ width: "100%" }}>
+            <Form method="post" style={{ width: "100%" }} onSubmit={vote}>
               <input type="hidden" name="winnerId" value={imageB.id} />
               <input type="hidden" name="loserId" value={imageA.id} />
+              <input type="hidden" name="ticket" value={ticket} />
 
               <Box
                 as="button"
@@ -147,13 +343,13 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
                 bg="transparent"
               >
                 <Image
-                  src={imageB.url}
+                  key={imageB.id}
+                  src={imageVariantUrl(imageB.url, { w: 800 })}
                   alt={imageB.name}
                   maxW="100%"
                   maxH={{ base: "40vh", md: "60vh" }}
                   height="auto"
                   objectFit="contain"
-                  loading="lazy"
                 />
               </Box>
             </Form>
@@ -163,14 +359,15 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
                 Elo: {Math.round(imageB.elo)}
               </Text> */}
 
-              <Form method="post" ref={formBRef}>
+              <Form method="post" ref={formBRef} onSubmit={vote}>
                 <input type="hidden" name="winnerId" value={imageB.id} />
                 <input type="hidden" name="loserId" value={imageA.id} />
+                <input type="hidden" name="ticket" value={ticket} />
                 <Button
                   type="submit"
                   colorScheme="blue"
                   size="lg"
-                  disabled={isSubmitting}
+                  disabled={coolingDown}
                 >
                   Choose This One
                 </Button>
@@ -179,16 +376,42 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
           </VStack>
         </HStack>
 
-        <Button
-          variant="outline"
-          onClick={() => window.location.reload()}
-          disabled={isSubmitting}
-          color={textColor}
-          borderColor={subTextColor}
-          _hover={{ bg: subTextColor, color: bgColor }}
-        >
-          Skip This Comparison
-        </Button>
+        <HStack gap="4" flexWrap="wrap" justifyContent="center">
+          {/* Counts as half a win for each image */}
+          <Form method="post" ref={formTieRef} onSubmit={vote}>
+            <input type="hidden" name="winnerId" value={imageA.id} />
+            <input type="hidden" name="loserId" value={imageB.id} />
+            <input type="hidden" name="ticket" value={ticket} />
+            <input type="hidden" name="outcome" value="draw" />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={coolingDown}
+              color={textColor}
+              borderColor={subTextColor}
+              _hover={{ bg: subTextColor, color: bgColor }}
+            >
+              Too Close / Tie
+            </Button>
+          </Form>
+
+          {/* Recorded so pairs nobody can decide on are shown less often; ratings don't change */}
+          <Form method="post" onSubmit={vote}>
+            <input type="hidden" name="winnerId" value={imageA.id} />
+            <input type="hidden" name="loserId" value={imageB.id} />
+            <input type="hidden" name="ticket" value={ticket} />
+            <input type="hidden" name="outcome" value="skip" />
+            <Button
+              type="submit"
+              variant="ghost"
+              disabled={coolingDown}
+              color={subTextColor}
+              _hover={{ bg: "gray.700" }}
+            >
+              Skip This Comparison
+            </Button>
+          </Form>
+        </HStack>
       </VStack>
 
       {/* Subtle keyboard shortcut indicator in bottom right - desktop only */}
@@ -202,8 +425,8 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
         userSelect="none"
         display={{ base: "none", md: "block" }}
       >
-        Press 1 or 2
+        Press 1 or 2, or 3 for a tie
       </Box>
     </Box>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,21 @@
+import type { Route } from "./+types/compare.vote"
+import { voteFromForm } from "./compare.server"
+import { VoteError } from "~/lib/voting.server"
+
+// Votes sent in the background by the compare page, answered with JSON so a failed vote never replaces the page.
+// Other failures are left as 500s, which the page retries.
+export async function action({ request }: Route.ActionArgs) {
+    try {
+        const headers = await voteFromForm(request)
+        return Response.json({ success: true }, { headers })
+    } catch (error) {
+        if (error instanceof VoteError) {
+            const retryAfter = Number(error.headers?.get("Retry-After")) || undefined
+            return Response.json(
+                { success: false, code: error.code, error: error.message, retryAfter },
+                { status: error.status, headers: error.headers }
+            )
+        }
+        throw error
+    }
+}
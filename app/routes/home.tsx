@@ -1,45 +1,34 @@
 import { Box, Button, Heading, VStack, HStack, Text, Image } from "@chakra-ui/react"
-import { Link } from "react-router"
+import { useEffect, useLayoutEffect, useRef, useState } from "react"
+import { data, Link } from "react-router"
 import type { Route } from "./+types/home"
-import { db } from "~/db.server"
+import { BradleyTerryScore } from "~/components/bradley-terry-score"
+import { RatingUncertainty } from "~/components/rating-uncertainty"
+import { collectionPaths, getCollection, listCollections } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { getHomeLeaderboard } from "~/lib/leaderboard.server"
 
-export async function loader({ request }: Route.LoaderArgs) {
+// Images shown at each end of the leaderboard
+const HOME_LIMIT = 50
+
+export async function loader({ request, params }: Route.LoaderArgs) {
   // Add cache headers for better performance
   const headers = new Headers()
   headers.set("Cache-Control", "public, max-age=60, s-maxage=300") // Cache for 1 min client, 5 min CDN
 
-  // Get total count first
-  const totalImages = await db.image.count()
-
-  // Get top 50 and bottom 50 images by Elo rating for leaderboard with optimized query
-  const [topImages, bottomImages] = await Promise.all([
-    db.image.findMany({
-      select: {
-        name: true,
-        url: true,
-        elo: true
-      },
-      orderBy: { elo: 'desc' },
-      take: 50
-    }),
-    db.image.findMany({
-      select: {
-        name: true,
-        url: true,
-        elo: true
-      },
-      orderBy: { elo: 'asc' },
-      take: 50
-    })
-  ])
+  // Leaderboards are per collection; "/" shows the default one
+  const collection = await getCollection(params.slug)
 
-  // Reverse the bottom images so worst (lowest Elo) appears first
-  const reversedBottomImages = bottomImages.reverse()
+  const [leaderboard, collections] = await Promise.all([
+    getHomeLeaderboard(collection.id, HOME_LIMIT),
+    listCollections()
+  ])
 
-  return Response.json({
-    topImages,
-    bottomImages: reversedBottomImages,
-    totalImages,
+  return data({
+    collection,
+    collections: collections.map(other => ({ ...other, href: collectionPaths(other).home })),
+    paths: collectionPaths(collection),
+    ...leaderboard,
     timestamp: Date.now() // For cache busting if needed
   }, { headers })
 }
@@ -51,8 +40,118 @@ export function meta({ }: Route.MetaArgs) {
   ]
 }
 
+type LeaderboardImage = {
+  id: number; rank: number; name: string; url: string; elo: number; deviation: number | null; matchCount: number
+  bradleyTerry: BradleyTerryScore | null
+}
+// Dates arrive as strings from the live stream
+type BradleyTerryRun = { fittedAt: Date | string; voteCount: number; confidence: number }
+type Leaderboard = { topImages: LeaderboardImage[]; bottomImages: LeaderboardImage[]; totalImages: number; bradleyTerry: BradleyTerryRun | null }
+type LiveStatus = "connecting" | "live" | "polling"
+
+// How often to re-fetch the leaderboard when the live stream isn't available
+const POLL_INTERVAL_MS = 15_000
+const MOVE_DURATION_MS = 600
+
+// Keeps the leaderboard current: subscribes to the live stream, or polls the same URL if the stream can't be opened
+function useLiveLeaderboard(initial: Leaderboard, url: string) {
+  const [leaderboard, setLeaderboard] = useState(initial)
+  const [status, setStatus] = useState<LiveStatus>("connecting")
+
+  // Another collection (or a revalidation) replaces whatever arrived live
+  useEffect(() => setLeaderboard(initial), [initial])
+
+  useEffect(() => {
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+    const poll = async () => {
+      try {
+        const response = await fetch(url, { headers: { Accept: "application/json" } })
+        if (response.ok) setLeaderboard(await response.json())
+      } catch {
+        // Offline for a moment; the next poll tries again
+      }
+    }
+    const startPolling = () => {
+      setStatus("polling")
+      if (!pollTimer) pollTimer = setInterval(poll, POLL_INTERVAL_MS)
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling()
+      return () => clearInterval(pollTimer)
+    }
+
+    const source = new EventSource(url)
+    source.addEventListener("open", () => setStatus("live"))
+    source.addEventListener("leaderboard", event => setLeaderboard(JSON.parse((event as MessageEvent).data)))
+    source.addEventListener("error", () => {
+      // Refused (e.g. 503): the browser won't retry, so poll instead. Otherwise it reconnects by itself.
+      if (source.readyState === EventSource.CLOSED) {
+        startPolling()
+        poll()
+      } else {
+        setStatus("connecting")
+      }
+    })
+
+    return () => {
+      source.close()
+      clearInterval(pollTimer)
+    }
+  }, [url])
+
+  return { ...leaderboard, status }
+}
+
+// Slides rows from where they were to where they are now, and flashes the ones whose rank changed
+function useRowAnimation(images: LeaderboardImage[]) {
+  const container = useRef<HTMLDivElement>(null)
+  const previous = useRef(new Map<string, { top: number, rank: string }>())
+
+  useLayoutEffect(() => {
+    const rows = container.current?.querySelectorAll<HTMLElement>("[data-image-id]") ?? []
+    const current = new Map<string, { top: number, rank: string }>()
+    const animate = previous.current.size > 0 && !window.matchMedia("(prefers-reduced-motion: reduce)").matches
+
+    rows.forEach(row => {
+      const id = row.dataset.imageId!
+      const position = { top: row.offsetTop, rank: row.dataset.rank! }
+      current.set(id, position)
+      if (!animate) return
+
+      const before = previous.current.get(id)
+      if (!before) {
+        row.animate([{ opacity: 0 }, { opacity: 1 }], { duration: MOVE_DURATION_MS })
+        return
+      }
+      if (before.top !== position.top) {
+        row.animate(
+          [{ transform: `translateY(${before.top - position.top}px)` }, { transform: "translateY(0)" }],
+          { duration: MOVE_DURATION_MS, easing: "ease-in-out" }
+        )
+      }
+      if (before.rank !== position.rank) {
+        const color = Number(position.rank) < Number(before.rank) ? "rgba(72, 187, 120, 0.35)" : "rgba(245, 101, 101, 0.35)"
+        row.animate([{ backgroundColor: color }, {}], { duration: MOVE_DURATION_MS * 3 })
+      }
+    })
+    previous.current = current
+  }, [images])
+
+  return container
+}
+
+const liveStatusText: Record<LiveStatus, string> = {
+  connecting: "Connecting…",
+  live: "● Live",
+  polling: `Updating every ${POLL_INTERVAL_MS / 1000} seconds`
+}
+
 export default function Home({ loaderData }: Route.ComponentProps) {
-  const { topImages, bottomImages, totalImages } = loaderData
+  const { collection, collections, paths } = loaderData
+  const { topImages, bottomImages, totalImages, bradleyTerry, status } = useLiveLeaderboard(loaderData, paths.live)
+  const topList = useRowAnimation(topImages)
+  const bottomList = useRowAnimation(bottomImages)
 
   return (
     <Box p={{ base: "4", md: "10" }} maxW="6xl" mx="auto" minH="100vh" bg="">
@@ -65,15 +164,59 @@ export default function Home({ loaderData }: Route.ComponentProps) {
           Compare images and see which ones rise to the top using the Elo rating system!
         </Text>
 
-        <Text textAlign="center" fontSize="md" color="gray.400">
-          {totalImages} images ready for comparison
-        </Text>
+        {collections.length > 1 && (
+          <HStack gap="2" flexWrap="wrap" justifyContent="center">
+            {collections.map(other => (
+              <Link key={other.id} to={other.href}>
+                <Button
+                  size="sm"
+                  variant={other.id === collection.id ? "solid" : "ghost"}
+                  color={other.id === collection.id ? undefined : "gray.300"}
+                  _hover={{ bg: "gray.700" }}
+                >
+                  {other.name}
+                </Button>
+              </Link>
+            ))}
+          </HStack>
+        )}
+
+        <VStack gap="1">
+          <Text textAlign="center" fontSize="md" color="gray.400">
+            {totalImages} images ready for comparison in {collection.name}
+          </Text>
+          <Text fontSize="xs" color={status === "live" ? "green.400" : "gray.500"}>
+            {liveStatusText[status]}
+          </Text>
+          {bradleyTerry && (
+            <Text fontSize="xs" color="gray.500">
+              BT: batch Bradley–Terry ranks from {bradleyTerry.voteCount} votes, fitted {new Date(bradleyTerry.fittedAt).toLocaleDateString()}
+            </Text>
+          )}
+        </VStack>
 
-        <Link to="/compare">
-          <Button variant="outline" size="lg" color="white" borderColor="gray.600" borderWidth="2px" _hover={{ bg: "gray.700" }}>
-            Start Comparing Images
-          </Button>
-        </Link>
+        <HStack gap="4" flexWrap="wrap" justifyContent="center">
+          <Link to={paths.compare}>
+            <Button variant="outline" size="lg" color="white" borderColor="gray.600" borderWidth="2px" _hover={{ bg: "gray.700" }}>
+              Start Comparing Images
+            </Button>
+          </Link>
+          <Link to={paths.leaderboard}>
+            <Button variant="ghost" size="lg" color="gray.300" _hover={{ bg: "gray.700" }}>
+              Full Leaderboard
+            </Button>
+          </Link>
+          <Link to={paths.me}>
+            <Button variant="ghost" size="lg" color="gray.300" _hover={{ bg: "gray.700" }}>
+              My Rankings
+            </Button>
+          </Link>
+          <Link to={paths.stats}>
+            <Button variant="ghost" size="lg" color="gray.300" _hover={{ bg: "gray.700" }}>
+              Statistics
+            </Button>
+          </Link>
+        </HStack>
 
         <VStack w="full" spacing={{ base: "8", lg: "0" }}>
           <HStack
@@ -89,40 +232,47 @@ export default function Home({ loaderData }: Route.ComponentProps) {
                 🏆 Top 50 Images
               </Heading>
 
-              <VStack spaceY="3" maxH="600px" overflowY="auto" pr="2">
-                {topImages.map((image: { name: string; url: string; elo: number }, index: number) => (
-                  <HStack
-                    key={`top-${index}`}
-                    w="full"
-                    p={{ base: "3", md: "4" }}
-                    borderWidth="1px"
-                    borderColor="gray.600"
-                    borderRadius="lg"
-                    justifyContent="space-between"
-                    align="center"
-                    bg="gray.800"
-                    _hover={{ bg: "gray.700", boxShadow: "md" }}
-                    transition="all 0.3s ease"
-                    boxShadow="sm"
-                  >
-                    <Text fontWeight="bold" fontSize={{ base: "lg", md: "2xl" }} minW={{ base: "12", md: "16" }} color="green.400" textAlign="left">
-                      #{index + 1}
-                    </Text>
-                    <Image
-                      src={image.url}
-                      alt={`Image ${index + 1}`}
-                      w={{ base: "100px", md: "150px" }}
-                      h={{ base: "100px", md: "150px" }}
-                      objectFit="cover"
+              <VStack ref={topList} spaceY="3" maxH="600px" overflowY="auto" pr="2" position="relative">
+                {topImages.map((image: LeaderboardImage) => (
+                  <Link key={image.id} to={`/image/${image.id}`} style={{ width: "100%" }}>
+                    <HStack
+                      data-image-id={image.id}
+                      data-rank={image.rank}
+                      w="full"
+                      p={{ base: "3", md: "4" }}
+                      borderWidth="1px"
+                      borderColor="gray.600"
                       borderRadius="lg"
-                      loading="lazy"
-                      transition="transform 0.3s ease"
-                      _hover={{ transform: "scale(1.05)" }}
-                    />
-                    <Text fontWeight="bold" color="green.400" fontSize={{ base: "md", md: "xl" }} minW={{ base: "20", md: "28" }} textAlign="right">
-                      {Math.round(image.elo)} Elo
-                    </Text>
-                  </HStack>
+                      justifyContent="space-between"
+                      align="center"
+                      bg="gray.800"
+                      _hover={{ bg: "gray.700", boxShadow: "md" }}
+                      transition="all 0.3s ease"
+                      boxShadow="sm"
+                    >
+                      <Text fontWeight="bold" fontSize={{ base: "lg", md: "2xl" }} minW={{ base: "12", md: "16" }} color="green.400" textAlign="left">
+                        #{image.rank}
+                      </Text>
+                      <Image
+                        src={imageVariantUrl(image.url, { w: 150, fit: "cover" })}
+                        alt={image.name}
+                        w={{ base: "100px", md: "150px" }}
+                        h={{ base: "100px", md: "150px" }}
+                        objectFit="cover"
+                        borderRadius="lg"
+                        loading="lazy"
+                        transition="transform 0.3s ease"
+                        _hover={{ transform: "scale(1.05)" }}
+                      />
+                      <VStack gap="0" align="flex-end" minW={{ base: "20", md: "28" }}>
+                        <Text fontWeight="bold" color="green.400" fontSize={{ base: "md", md: "xl" }} textAlign="right">
+                          {Math.round(image.elo)} Elo
+                        </Text>
+                        <RatingUncertainty image={image} />
+                        <BradleyTerryScore score={image.bradleyTerry} confidence={bradleyTerry?.confidence ?? 0.95} />
+                      </VStack>
+                    </HStack>
+                  </Link>
                 ))}
               </VStack>
             </Box>
@@ -133,40 +283,47 @@ export default function Home({ loaderData }: Route.ComponentProps) {
                 📉 Bottom 50 Images
               </Heading>
 
-              <VStack spaceY="3" maxH="600px" overflowY="auto" pr="2">
-                {bottomImages.map((image: { name: string; url: string; elo: number }, index: number) => (
-                  <HStack
-                    key={`bottom-${index}`}
-                    w="full"
-                    p={{ base: "3", md: "4" }}
-                    borderWidth="1px"
-                    borderColor="gray.600"
-                    borderRadius="lg"
-                    justifyContent="space-between"
-                    align="center"
-                    bg="gray.800"
-                    _hover={{ bg: "gray.700", boxShadow: "md" }}
-                    transition="all 0.3s ease"
-                    boxShadow="sm"
-                  >
-                    <Text fontWeight="bold" fontSize={{ base: "lg", md: "2xl" }} minW={{ base: "12", md: "16" }} color="red.400" textAlign="left">
-                      #{totalImages - index}
-                    </Text>
-                    <Image
-                      src={image.url}
-                      alt={`Image ${totalImages - index}`}
-                      w={{ base: "100px", md: "150px" }}
-                      h={{ base: "100px", md: "150px" }}
-                      objectFit="cover"
+              <VStack ref={bottomList} spaceY="3" maxH="600px" overflowY="auto" pr="2" position="relative">
+                {bottomImages.map((image: LeaderboardImage) => (
+                  <Link key={image.id} to={`/image/${image.id}`} style={{ width: "100%" }}>
+                    <HStack
+                      data-image-id={image.id}
+                      data-rank={image.rank}
+                      w="full"
+                      p={{ base: "3", md: "4" }}
+                      borderWidth="1px"
+                      borderColor="gray.600"
                       borderRadius="lg"
-                      loading="lazy"
-                      transition="transform 0.3s ease"
-                      _hover={{ transform: "scale(1.05)" }}
-                    />
-                    <Text fontWeight="bold" color="red.400" fontSize={{ base: "md", md: "xl" }} minW={{ base: "20", md: "28" }} textAlign="right">
-                      {Math.round(image.elo)} Elo
-                    </Text>
-                  </HStack>
+                      justifyContent="space-between"
+                      align="center"
+                      bg="gray.800"
+                      _hover={{ bg: "gray.700", boxShadow: "md" }}
+                      transition="all 0.3s ease"
+                      boxShadow="sm"
+                    >
+                      <Text fontWeight="bold" fontSize={{ base: "lg", md: "2xl" }} minW={{ base: "12", md: "16" }} color="red.400" textAlign="left">
+                        #{image.rank}
+                      </Text>
+                      <Image
+                        src={imageVariantUrl(image.url, { w: 150, fit: "cover" })}
+                        alt={image.name}
+                        w={{ base: "100px", md: "150px" }}
+                        h={{ base: "100px", md: "150px" }}
+                        objectFit="cover"
+                        borderRadius="lg"
+                        loading="lazy"
+                        transition="transform 0.3s ease"
+                        _hover={{ transform: "scale(1.05)" }}
+                      />
+                      <VStack gap="0" align="flex-end" minW={{ base: "20", md: "28" }}>
+                        <Text fontWeight="bold" color="red.400" fontSize={{ base: "md", md: "xl" }} textAlign="right">
+                          {Math.round(image.elo)} Elo
+                        </Text>
+                        <RatingUncertainty image={image} />
+                        <BradleyTerryScore score={image.bradleyTerry} confidence={bradleyTerry?.confidence ?? 0.95} />
+                      </VStack>
+                    </HStack>
+                  </Link>
                 ))}
               </VStack>
             </Box>
@@ -0,0 +1,134 @@
+import { Box, Heading, VStack, HStack, Text, Image, IconButton, Table } from "@chakra-ui/react"
+import { Link } from "react-router"
+import type { Route } from "./+types/image.$id"
+import { FaArrowLeft } from "react-icons/fa"
+import { RatingChart } from "~/components/rating-chart"
+import { RatingUncertainty } from "~/components/rating-uncertainty"
+import { collectionPaths } from "~/lib/collections.server"
+import { getImageDetail } from "~/lib/image-detail.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const id = Number(params.id)
+  const detail = Number.isInteger(id) ? await getImageDetail(id) : null
+
+  if (!detail) {
+    throw new Response("Not Found", { status: 404 })
+  }
+
+  return {
+    ...detail,
+    paths: collectionPaths(detail.image.collection)
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: `${data?.image.name ?? "Image"} - Elo Rating` },
+    { name: "description", content: "Rating history and head-to-head record" },
+  ]
+}
+
+export default function ImageDetail({ loaderData }: Route.ComponentProps) {
+  const { image, paths, rank, totalImages, record, ratingHistory, headToHead } = loaderData
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="4xl" mx="auto" minH="100vh">
+      <VStack gap="8" align="stretch">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.leaderboard}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" size={{ base: "xl", md: "2xl" }} color="white">
+              {image.name}
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {image.collection.name}
+            </Text>
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        <Image
+          src={imageVariantUrl(image.url, { w: 800 })}
+          alt={image.name}
+          maxH="70vh"
+          objectFit="contain"
+          borderRadius="lg"
+          mx="auto"
+        />
+
+        <HStack gap="4" justifyContent="center" flexWrap="wrap">
+          <Stat label="Rank" value={`#${rank} of ${totalImages}`} />
+          <Stat label="Rating" value={`${Math.round(image.elo)} Elo`}>
+            <RatingUncertainty image={image} />
+          </Stat>
+          <Stat label="Record" value={`${record.wins}W – ${record.losses}L${record.draws > 0 ? ` – ${record.draws}D` : ""}`} />
+        </HStack>
+
+        <Box>
+          <Heading size="md" mb="4" color="white">
+            Rating History
+          </Heading>
+          <RatingChart points={ratingHistory} />
+        </Box>
+
+        <Box>
+          <Heading size="md" mb="4" color="white">
+            Most Frequent Opponents
+          </Heading>
+          {headToHead.length === 0 ? (
+            <Text color="gray.400" fontSize="sm">
+              This image hasn't been compared yet.
+            </Text>
+          ) : (
+            <Table.Root size="sm" variant="outline">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeader>Opponent</Table.ColumnHeader>
+                  <Table.ColumnHeader textAlign="end">Rating</Table.ColumnHeader>
+                  <Table.ColumnHeader textAlign="end">Won</Table.ColumnHeader>
+                  <Table.ColumnHeader textAlign="end">Lost</Table.ColumnHeader>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {headToHead.map(({ opponent, wins, losses }) => (
+                  <Table.Row key={opponent.id}>
+                    <Table.Cell>
+                      <Link to={`/image/${opponent.id}`}>
+                        <HStack gap="3">
+                          <Image src={imageVariantUrl(opponent.url, { w: 64, fit: "cover" })} alt={opponent.name} w="40px" h="40px" objectFit="cover" borderRadius="md" loading="lazy" />
+                          <Text>{opponent.name}</Text>
+                        </HStack>
+                      </Link>
+                    </Table.Cell>
+                    <Table.Cell textAlign="end">{Math.round(opponent.elo)}</Table.Cell>
+                    <Table.Cell textAlign="end" color="green.400">{wins}</Table.Cell>
+                    <Table.Cell textAlign="end" color="red.400">{losses}</Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table.Root>
+          )}
+        </Box>
+      </VStack>
+    </Box>
+  )
+}
+
+function Stat({ label, value, children }: { label: string; value: string; children?: React.ReactNode }) {
+  return (
+    <VStack gap="0" p="4" minW="40" borderWidth="1px" borderColor="gray.600" borderRadius="lg" bg="gray.800">
+      <Text fontSize="xs" color="gray.400" textTransform="uppercase">
+        {label}
+      </Text>
+      <Text fontSize="xl" fontWeight="bold" color="white">
+        {value}
+      </Text>
+      {children}
+    </VStack>
+  )
+}
@@ -0,0 +1,75 @@
+import type { Route } from "./+types/leaderboard.live"
+import { getCollection } from "~/lib/collections.server"
+import { getHomeLeaderboard } from "~/lib/leaderboard.server"
+import { liveUpdateSettings, subscribeToLeaderboard } from "~/lib/live-updates"
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_MS = 25_000
+// How long browsers wait before reconnecting a dropped stream
+const RETRY_MS = 5000
+
+// no-transform keeps the compression middleware from buffering the stream
+const noStore = "no-store, no-transform"
+
+// The home page's leaderboard, live. EventSource requests (Accept: text/event-stream) get a stream with the current
+// leaderboard and a new one whenever votes land; anything else gets the current leaderboard as JSON, for polling.
+// Streams answer 503 when this instance can't receive updates, so browsers fall back to polling.
+export async function loader({ request, params }: Route.LoaderArgs) {
+    const collection = await getCollection(params.slug)
+    const current = () => getHomeLeaderboard(collection.id, liveUpdateSettings.limit)
+
+    if (!request.headers.get("Accept")?.includes("text/event-stream")) {
+        return Response.json(await current(), { headers: { "Cache-Control": noStore } })
+    }
+
+    const encoder = new TextEncoder()
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    let stopped = false
+    let keepalive: ReturnType<typeof setInterval> | undefined
+    let unsubscribe: (() => void) | null = null
+
+    const send = (text: string) => {
+        if (!stopped) controller.enqueue(encoder.encode(text))
+    }
+    const sendLeaderboard = (leaderboard: Awaited<ReturnType<typeof current>>) => {
+        send(`event: leaderboard\ndata: ${JSON.stringify(leaderboard)}\n\n`)
+    }
+    const stop = () => {
+        if (stopped) return
+        stopped = true
+        clearInterval(keepalive)
+        unsubscribe?.()
+        controller.close()
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+        start(streamController) {
+            controller = streamController
+        },
+        cancel() {
+            stopped = true
+            clearInterval(keepalive)
+            unsubscribe?.()
+        }
+    })
+
+    unsubscribe = await subscribeToLeaderboard(collection.id, { update: sendLeaderboard, disconnect: stop })
+    if (!unsubscribe) {
+        return new Response("Live updates are unavailable", { status: 503, headers: { "Cache-Control": noStore } })
+    }
+    request.signal.addEventListener("abort", stop)
+    keepalive = setInterval(() => send(": keepalive\n\n"), KEEPALIVE_MS)
+
+    // The page may have been served from cache, so start with the current standings
+    send(`retry: ${RETRY_MS}\n\n`)
+    current().then(sendLeaderboard, error => console.error("Failed to load the live leaderboard:", error))
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": noStore,
+            // Stops nginx from buffering the stream
+            "X-Accel-Buffering": "no"
+        }
+    })
+}
@@ -0,0 +1,196 @@
+import { Box, Button, Heading, VStack, HStack, Text, Image, IconButton, Input, NativeSelect } from "@chakra-ui/react"
+import { Form, Link } from "react-router"
+import type { Route } from "./+types/leaderboard"
+import { FaArrowLeft } from "react-icons/fa"
+import { RatingUncertainty } from "~/components/rating-uncertainty"
+import { collectionPaths, getCollection } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { getLeaderboardPage, isLeaderboardSort } from "~/lib/leaderboard.server"
+
+const PAGE_SIZE = 50
+
+// Rank movement since the latest snapshot: up, down, unchanged, or new to the leaderboard
+function RankChange({ rank, previousRank }: { rank: number, previousRank: number | null }) {
+  if (previousRank === null) {
+    return <Text fontSize="xs" fontWeight="bold" color="yellow.400">NEW</Text>
+  }
+  const change = previousRank - rank
+  if (change === 0) {
+    return <Text fontSize="xs" color="gray.500">–</Text>
+  }
+  return (
+    <Text fontSize="xs" fontWeight="bold" color={change > 0 ? "green.400" : "red.400"}>
+      {change > 0 ? "▲" : "▼"}{Math.abs(change)}
+    </Text>
+  )
+}
+
+function positiveInt(value: string | null) {
+  const parsed = Number(value)
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined
+}
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const collection = await getCollection(params.slug)
+  const url = new URL(request.url)
+  const sortParam = url.searchParams.get("sort")
+  const search = url.searchParams.get("q")?.trim() ?? ""
+  const ranking = url.searchParams.get("ranking") === "dense" ? "dense" : "competition"
+
+  const page = await getLeaderboardPage({
+    collectionId: collection.id,
+    sort: isLeaderboardSort(sortParam) ? sortParam : "rating",
+    search,
+    after: positiveInt(url.searchParams.get("after")),
+    before: positiveInt(url.searchParams.get("before")),
+    jumpToRank: positiveInt(url.searchParams.get("rank")),
+    limit: PAGE_SIZE
+  })
+
+  return {
+    collection,
+    paths: collectionPaths(collection),
+    search,
+    ranking,
+    ...page
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: `Leaderboard - ${data?.collection.name ?? "Elo Image Comparison"}` },
+    { name: "description", content: "Every image ranked by its Elo rating" },
+  ]
+}
+
+export default function Leaderboard({ loaderData }: Route.ComponentProps) {
+  const { collection, paths, search, ranking, sort, images, before, after, total, rankChangeSince } = loaderData
+
+  // Keep search, sort and ranking when paging
+  const pageLink = (cursor: Record<string, number>) => {
+    const params = new URLSearchParams({ sort, ranking, ...(search && { q: search }) })
+    for (const [key, value] of Object.entries(cursor)) params.set(key, String(value))
+    return `?${params}`
+  }
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="4xl" mx="auto" minH="100vh">
+      <VStack gap="8">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.home}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" size={{ base: "xl", md: "2xl" }} color="white">
+              Leaderboard
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {collection.name} · {total} {search ? "matching images" : "images"}
+            </Text>
+            {rankChangeSince && (
+              <Text fontSize="xs" color="gray.500">
+                Rank changes since {new Date(rankChangeSince).toLocaleDateString()} · <Link to={paths.movers} style={{ textDecoration: "underline" }}>Biggest movers</Link>
+              </Text>
+            )}
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        <HStack w="full" gap="4" flexWrap="wrap" justifyContent="space-between">
+          <Form method="get" style={{ flex: 1 }}>
+            <HStack gap="2">
+              <Input name="q" defaultValue={search} placeholder="Search by name" color="white" borderColor="gray.600" />
+              <NativeSelect.Root w="40" borderColor="gray.600">
+                <NativeSelect.Field name="sort" defaultValue={sort} color="white">
+                  <option value="rating">Rating</option>
+                  <option value="votes">Vote count</option>
+                  <option value="recent">Newest</option>
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <NativeSelect.Root w="44" borderColor="gray.600">
+                <NativeSelect.Field name="ranking" defaultValue={ranking} color="white">
+                  <option value="competition">Competition rank</option>
+                  <option value="dense">Dense rank</option>
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <Button type="submit" variant="outline" color="white" borderColor="gray.600">
+                Apply
+              </Button>
+            </HStack>
+          </Form>
+
+          <Form method="get">
+            <input type="hidden" name="ranking" value={ranking} />
+            <HStack gap="2">
+              <Input name="rank" type="number" min="1" placeholder="Jump to rank" w="36" color="white" borderColor="gray.600" />
+              <Button type="submit" variant="outline" color="white" borderColor="gray.600">
+                Go
+              </Button>
+            </HStack>
+          </Form>
+        </HStack>
+
+        <VStack gap="3" w="full">
+          {images.length === 0 && (
+            <Text color="gray.400">No images found.</Text>
+          )}
+          {images.map(image => (
+            <Link key={image.id} to={`/image/${image.id}`} style={{ width: "100%" }}>
+              <HStack
+                w="full"
+                p={{ base: "3", md: "4" }}
+                borderWidth="1px"
+                borderColor="gray.600"
+                borderRadius="lg"
+                justifyContent="space-between"
+                align="center"
+                bg="gray.800"
+                _hover={{ bg: "gray.700", boxShadow: "md" }}
+                transition="all 0.3s ease"
+                boxShadow="sm"
+              >
+                <VStack gap="0" align="flex-start" minW={{ base: "12", md: "16" }}>
+                  <Text fontWeight="bold" fontSize={{ base: "lg", md: "2xl" }} color="blue.300" textAlign="left">
+                    #{ranking === "dense" ? image.denseRank : image.rank}
+                  </Text>
+                  {rankChangeSince && <RankChange rank={image.rank} previousRank={image.previousRank} />}
+                </VStack>
+                <Image
+                  src={imageVariantUrl(image.url, { w: 150, fit: "cover" })}
+                  alt={image.name}
+                  w={{ base: "80px", md: "100px" }}
+                  h={{ base: "80px", md: "100px" }}
+                  objectFit="cover"
+                  borderRadius="lg"
+                  loading="lazy"
+                />
+                <Text flex="1" color="gray.200" truncate>
+                  {image.name}
+                </Text>
+                <VStack gap="0" align="flex-end" minW={{ base: "20", md: "28" }}>
+                  <Text fontWeight="bold" color="blue.300" fontSize={{ base: "md", md: "xl" }} textAlign="right">
+                    {Math.round(image.elo)} Elo
+                  </Text>
+                  <RatingUncertainty image={image} />
+                </VStack>
+              </HStack>
+            </Link>
+          ))}
+        </VStack>
+
+        <HStack gap="4">
+          <Button asChild variant="outline" color="white" borderColor="gray.600" disabled={before === null}>
+            {before === null ? <span>Previous</span> : <Link to={pageLink({ before })}>Previous</Link>}
+          </Button>
+          <Button asChild variant="outline" color="white" borderColor="gray.600" disabled={after === null}>
+            {after === null ? <span>Next</span> : <Link to={pageLink({ after })}>Next</Link>}
+          </Button>
+        </HStack>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,245 @@
+import { Box, Button, Heading, HStack, IconButton, Image, Input, Text, VStack } from "@chakra-ui/react"
+import { data, Form, Link, useNavigation } from "react-router"
+import type { Route } from "./+types/me"
+import { FaArrowLeft } from "react-icons/fa"
+import { collectionPaths, getCollection } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { getPersonalRanking } from "~/lib/personal-ranking.server"
+import { checkRateLimit, getClientIP, rateLimitHeaders } from "~/lib/rate-limit"
+import { createSyncCode, isLinked, linkSyncCode, unlinkSession, voterSessionIds } from "~/lib/voters.server"
+import { getVoterSession, sessionStorage } from "~/sessions.server"
+
+// Below this many votes a personal ranking says more about which pairs came up than about taste
+const MIN_VOTES = 5
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const headers = new Headers()
+  headers.set("Cache-Control", "private, no-store")
+
+  const collection = await getCollection(params.slug)
+  const { session, sessionId } = await getVoterSession(request)
+  headers.set("Set-Cookie", await sessionStorage.commitSession(session))
+
+  const [linked, ranking] = await Promise.all([
+    isLinked(sessionId),
+    voterSessionIds(sessionId).then(sessionIds => getPersonalRanking(sessionIds, collection.id))
+  ])
+
+  return data({
+    collection,
+    paths: collectionPaths(collection),
+    linked,
+    minVotes: MIN_VOTES,
+    ...ranking
+  }, { headers })
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData()
+  const intent = String(formData.get("intent"))
+  const { session, sessionId } = await getVoterSession(request)
+  const headers = new Headers({ "Set-Cookie": await sessionStorage.commitSession(session) })
+
+  if (intent === "create") {
+    const code = await createSyncCode(sessionId)
+    return data({ code, message: undefined, error: undefined }, { headers })
+  }
+
+  if (intent === "link") {
+    // Slows down guessing other voters' codes
+    const rateLimit = await checkRateLimit("voterLink", { ip: getClientIP(request) })
+    if (rateLimit && !rateLimit.allowed) {
+      const minutes = Math.ceil(rateLimit.retryAfterSeconds / 60)
+      return data(
+        { code: undefined, message: undefined, error: `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      )
+    }
+
+    if (!await linkSyncCode(sessionId, String(formData.get("code") ?? ""))) {
+      return data({ code: undefined, message: undefined, error: "That sync code doesn't match any voter" }, { status: 400, headers })
+    }
+    return data({ code: undefined, message: "This device now shares your voting history", error: undefined }, { headers })
+  }
+
+  if (intent === "unlink") {
+    await unlinkSession(sessionId)
+    return data({ code: undefined, message: "This device is no longer linked", error: undefined }, { headers })
+  }
+
+  return data({ code: undefined, message: undefined, error: `Unknown action "${intent}"` }, { status: 400, headers })
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: `My Rankings - ${data?.collection.name ?? "Elo Image Comparison"}` },
+    { name: "description", content: "Your own ranking, built only from your votes" },
+  ]
+}
+
+function describeCorrelation(correlation: number | null) {
+  if (correlation === null) return "Not enough variety in your votes to compare yet"
+  if (correlation >= 0.7) return "Your taste closely matches everyone else's"
+  if (correlation >= 0.3) return "Your taste mostly matches everyone else's"
+  if (correlation > -0.3) return "Your taste has little in common with everyone else's"
+  return "Your taste runs against everyone else's"
+}
+
+type PersonalImage = Route.ComponentProps["loaderData"]["images"][number]
+
+function DifferenceList({ title, color, images }: { title: string, color: string, images: PersonalImage[] }) {
+  if (images.length === 0) return null
+
+  return (
+    <Box flex="1" w="full">
+      <Heading size="md" mb="3" color={color}>
+        {title}
+      </Heading>
+      <VStack gap="2" align="stretch">
+        {images.map(image => (
+          <Link key={image.id} to={`/image/${image.id}`}>
+            <HStack p="2" borderWidth="1px" borderColor="gray.600" borderRadius="md" bg="gray.800" _hover={{ bg: "gray.700" }}>
+              <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} w="12" h="12" objectFit="cover" borderRadius="md" />
+              <Text flex="1" color="white" truncate>{image.name}</Text>
+              <Text fontSize="sm" color="gray.400" whiteSpace="nowrap">
+                You: #{image.personalRank} · Everyone: {image.globalRank ? `#${image.globalRank}` : "-"}
+              </Text>
+            </HStack>
+          </Link>
+        ))}
+      </VStack>
+    </Box>
+  )
+}
+
+export default function Me({ loaderData, actionData }: Route.ComponentProps) {
+  const { collection, paths, linked, minVotes, voteCount, images, correlation, ratedHigher, ratedLower } = loaderData
+  const navigation = useNavigation()
+  const busy = navigation.state !== "idle"
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="4xl" mx="auto" minH="100vh">
+      <VStack gap="8" align="stretch">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.home}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" size={{ base: "xl", md: "2xl" }} color="white">
+              My Rankings
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {collection.name} · {voteCount} {voteCount === 1 ? "vote" : "votes"}
+            </Text>
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        {voteCount < minVotes ? (
+          <VStack gap="4" py="10">
+            <Text color="gray.300" textAlign="center">
+              Cast at least {minVotes} votes in {collection.name} to see how your ranking compares with everyone else's.
+            </Text>
+            <Link to={paths.compare}>
+              <Button variant="outline" color="white" borderColor="gray.600" _hover={{ bg: "gray.700" }}>
+                Start Comparing Images
+              </Button>
+            </Link>
+          </VStack>
+        ) : (
+          <>
+            <VStack gap="1">
+              <Text color="white" fontSize="lg" textAlign="center">
+                {describeCorrelation(correlation)}
+              </Text>
+              {correlation !== null && (
+                <Text color="gray.400" fontSize="sm">
+                  Rank correlation {correlation.toFixed(2)} over the {images.length} images you've seen
+                </Text>
+              )}
+            </VStack>
+
+            <HStack w="full" gap="6" align="flex-start" flexDirection={{ base: "column", md: "row" }}>
+              <DifferenceList title="You rate much higher" color="green.400" images={ratedHigher} />
+              <DifferenceList title="You rate much lower" color="red.400" images={ratedLower} />
+            </HStack>
+
+            <Box>
+              <Heading size="md" mb="3" color="white">
+                Your Ranking
+              </Heading>
+              <VStack gap="2" align="stretch">
+                {images.map(image => (
+                  <Link key={image.id} to={`/image/${image.id}`}>
+                    <HStack p="2" borderWidth="1px" borderColor="gray.600" borderRadius="md" bg="gray.800" _hover={{ bg: "gray.700" }}>
+                      <Text fontWeight="bold" color="white" minW="12">#{image.personalRank}</Text>
+                      <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} w="12" h="12" objectFit="cover" borderRadius="md" loading="lazy" />
+                      <Text flex="1" color="white" truncate>{image.name}</Text>
+                      <VStack gap="0" align="flex-end">
+                        <Text fontSize="sm" color="gray.300">
+                          {image.wins}–{image.losses}{image.draws > 0 && ` (${image.draws} ${image.draws === 1 ? "tie" : "ties"})`}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                          Everyone: {image.globalRank ? `#${image.globalRank}` : "-"}
+                        </Text>
+                      </VStack>
+                    </HStack>
+                  </Link>
+                ))}
+              </VStack>
+            </Box>
+          </>
+        )}
+
+        <Box p="4" borderWidth="1px" borderColor="gray.600" borderRadius="lg">
+          <VStack gap="3" align="stretch">
+            <Heading size="sm" color="white">
+              Sync Across Devices
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {linked
+                ? "This device is linked to a sync code. Votes from every linked device count towards your ranking."
+                : "Create a sync code here and enter it on your other devices to combine their votes into one ranking."}
+            </Text>
+
+            {actionData?.code && (
+              <Box p="3" bg="gray.800" borderRadius="md">
+                <Text fontFamily="mono" fontSize="xl" color="white" textAlign="center">
+                  {actionData.code}
+                </Text>
+                <Text fontSize="xs" color="gray.400" textAlign="center">
+                  Write this down: it won't be shown again. Creating a new code replaces it.
+                </Text>
+              </Box>
+            )}
+            {actionData?.message && <Text color="green.400" fontSize="sm">{actionData.message}</Text>}
+            {actionData?.error && <Text color="red.400" fontSize="sm">{actionData.error}</Text>}
+
+            <Form method="post">
+              <HStack gap="2">
+                <Input name="code" placeholder="XXXX-XXXX-XXXX" autoComplete="off" color="white" borderColor="gray.600" />
+                <Button type="submit" name="intent" value="link" variant="outline" color="white" borderColor="gray.600" disabled={busy}>
+                  Link
+                </Button>
+              </HStack>
+            </Form>
+            <Form method="post">
+              <HStack gap="2">
+                <Button type="submit" name="intent" value="create" size="sm" variant="ghost" color="gray.300" disabled={busy}>
+                  {linked ? "Create a New Code" : "Create a Sync Code"}
+                </Button>
+                {linked && (
+                  <Button type="submit" name="intent" value="unlink" size="sm" variant="ghost" color="gray.300" disabled={busy}>
+                    Unlink This Device
+                  </Button>
+                )}
+              </HStack>
+            </Form>
+          </VStack>
+        </Box>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,160 @@
+import { Box, Button, Heading, HStack, IconButton, Image, NativeSelect, Text, VStack } from "@chakra-ui/react"
+import { Form, Link } from "react-router"
+import type { Route } from "./+types/movers"
+import { FaArrowLeft } from "react-icons/fa"
+import { db } from "~/db.server"
+import { collectionPaths, getCollection } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { compareSnapshots, listSnapshots, type SnapshotMover } from "~/lib/snapshots.server"
+
+const MOVERS_LIMIT = 10
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+  const collection = await getCollection(params.slug)
+  const snapshots = await listSnapshots(db, { collectionId: collection.id })
+  const url = new URL(request.url)
+
+  // Defaults to the latest snapshot against the one before it (or after it, when "to" is the oldest)
+  const find = (param: string) => {
+    const value = url.searchParams.get(param)
+    if (!value) return undefined
+    const snapshot = snapshots.find(snapshot => snapshot.id === Number(value))
+    if (!snapshot) {
+      throw new Response("Snapshot not found", { status: 404 })
+    }
+    return snapshot
+  }
+  const to = find("to") ?? snapshots[0]
+  const from = find("from") ?? snapshots[snapshots.indexOf(to) + 1] ?? snapshots[snapshots.indexOf(to) - 1]
+
+  return {
+    collection,
+    paths: collectionPaths(collection),
+    snapshots: snapshots.map(({ id, label, createdAt }) => ({ id, label, createdAt })),
+    from: from ?? null,
+    to: to ?? null,
+    comparison: from && to && from !== to ? await compareSnapshots(db, from.id, to.id, MOVERS_LIMIT) : null
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: `Biggest Movers - ${data?.collection.name ?? "Elo Image Comparison"}` },
+    { name: "description", content: "The images that climbed and fell furthest between two leaderboard snapshots" },
+  ]
+}
+
+function snapshotName(snapshot: { label: string | null, createdAt: Date | string }) {
+  const date = new Date(snapshot.createdAt).toLocaleString()
+  return snapshot.label ? `${snapshot.label} (${date})` : date
+}
+
+function MoverList({ title, color, images, empty }: { title: string, color: string, images: SnapshotMover[], empty: string }) {
+  return (
+    <Box flex="1" w="full">
+      <Heading size="md" mb="3" color={color}>
+        {title}
+      </Heading>
+      {images.length === 0 ? (
+        <Text color="gray.500" fontSize="sm">{empty}</Text>
+      ) : (
+        <VStack gap="2" align="stretch">
+          {images.map(image => (
+            <Link key={image.id} to={`/image/${image.id}`}>
+              <HStack p="2" borderWidth="1px" borderColor="gray.600" borderRadius="md" bg="gray.800" _hover={{ bg: "gray.700" }}>
+                <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} w="12" h="12" objectFit="cover" borderRadius="md" loading="lazy" />
+                <Text flex="1" color="white" truncate>{image.name}</Text>
+                <VStack gap="0" align="flex-end">
+                  <Text fontSize="sm" color="gray.300" whiteSpace="nowrap">
+                    {image.previousRank === null ? `#${image.rank}` : `#${image.previousRank} → #${image.rank}`}
+                  </Text>
+                  <Text fontSize="xs" color="gray.500" whiteSpace="nowrap">
+                    {image.previousRating === null
+                      ? `${Math.round(image.rating)} Elo`
+                      : `${Math.round(image.previousRating)} → ${Math.round(image.rating)} Elo`}
+                  </Text>
+                </VStack>
+              </HStack>
+            </Link>
+          ))}
+        </VStack>
+      )}
+    </Box>
+  )
+}
+
+export default function Movers({ loaderData }: Route.ComponentProps) {
+  const { collection, paths, snapshots, from, to, comparison } = loaderData
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="5xl" mx="auto" minH="100vh">
+      <VStack gap="8" align="stretch">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.leaderboard}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" size={{ base: "xl", md: "2xl" }} color="white">
+              Biggest Movers
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {collection.name}
+            </Text>
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        {!from || !to ? (
+          <Text color="gray.400" textAlign="center" py="10">
+            Rank changes show up here once the leaderboard has been snapshotted at least twice.
+          </Text>
+        ) : (
+          <>
+            <Form method="get">
+              <HStack gap="2" flexWrap="wrap" justifyContent="center">
+                <NativeSelect.Root w="64" borderColor="gray.600">
+                  <NativeSelect.Field name="from" defaultValue={from.id} color="white">
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{snapshotName(snapshot)}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <Text color="gray.400">to</Text>
+                <NativeSelect.Root w="64" borderColor="gray.600">
+                  <NativeSelect.Field name="to" defaultValue={to.id} color="white">
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{snapshotName(snapshot)}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <Button type="submit" variant="outline" color="white" borderColor="gray.600">
+                  Compare
+                </Button>
+              </HStack>
+            </Form>
+
+            {comparison ? (
+              <>
+                <HStack w="full" gap="6" align="flex-start" flexDirection={{ base: "column", md: "row" }}>
+                  <MoverList title="Risers" color="green.400" images={comparison.risers} empty="Nothing climbed." />
+                  <MoverList title="Fallers" color="red.400" images={comparison.fallers} empty="Nothing fell." />
+                  <MoverList title="New Entries" color="yellow.400" images={comparison.newEntries} empty="No new images." />
+                </HStack>
+
+                <Text color="gray.500" fontSize="sm" textAlign="center">
+                  {comparison.unchanged} {comparison.unchanged === 1 ? "image" : "images"} kept their rank
+                </Text>
+              </>
+            ) : (
+              <Text color="gray.400" textAlign="center">Pick two different snapshots to compare.</Text>
+            )}
+          </>
+        )}
+      </VStack>
+    </Box>
+  )
+}
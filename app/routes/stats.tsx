@@ -0,0 +1,162 @@
+import { Box, Heading, HStack, IconButton, Image, SimpleGrid, Table, Text, VStack } from "@chakra-ui/react"
+import { data, Link } from "react-router"
+import type { Route } from "./+types/stats"
+import { FaArrowLeft } from "react-icons/fa"
+import { BarChart } from "~/components/bar-chart"
+import { collectionPaths, getCollection } from "~/lib/collections.server"
+import { imageVariantUrl } from "~/lib/image-variants"
+import { getPoolStats } from "~/lib/stats.server"
+
+// The top 10 counts as settled when at most this many places changed on average over the longest window
+const SETTLED_MEAN_RANK_CHANGE = 1
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const headers = new Headers()
+  headers.set("Cache-Control", "public, max-age=60, s-maxage=300")
+
+  const collection = await getCollection(params.slug)
+  const stats = await getPoolStats(collection.id)
+
+  return data({ collection, paths: collectionPaths(collection), ...stats }, { headers })
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: `Statistics - ${data?.collection.name ?? "Elo Image Comparison"}` },
+    { name: "description", content: "Votes, voters and how settled the rankings are" },
+  ]
+}
+
+function Stat({ label, value }: { label: string, value: number }) {
+  return (
+    <VStack gap="0" p="4" borderWidth="1px" borderColor="gray.600" borderRadius="lg" bg="gray.800">
+      <Text fontSize="2xl" fontWeight="bold" color="white">{value.toLocaleString()}</Text>
+      <Text fontSize="sm" color="gray.400">{label}</Text>
+    </VStack>
+  )
+}
+
+function Section({ title, description, children }: { title: string, description?: string, children: React.ReactNode }) {
+  return (
+    <Box>
+      <Heading size="md" mb="1" color="white">
+        {title}
+      </Heading>
+      {description && <Text fontSize="sm" color="gray.400" mb="3">{description}</Text>}
+      {children}
+    </Box>
+  )
+}
+
+export default function Stats({ loaderData }: Route.ComponentProps) {
+  const { collection, paths, convergence, topSize } = loaderData
+  const longest = convergence[convergence.length - 1]
+  const settled = longest && longest.topOverlap === Math.min(topSize, loaderData.imageCount) && longest.meanRankChange <= SETTLED_MEAN_RANK_CHANGE
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="5xl" mx="auto" minH="100vh">
+      <VStack gap="8" align="stretch">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.home}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" size={{ base: "xl", md: "2xl" }} color="white">
+              Statistics
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {collection.name}
+            </Text>
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        <SimpleGrid columns={{ base: 2, md: 4 }} gap="3">
+          <Stat label="Images" value={loaderData.imageCount} />
+          <Stat label="Votes" value={loaderData.votes} />
+          <Stat label="Ties" value={loaderData.draws} />
+          <Stat label="Skips" value={loaderData.skips} />
+          <Stat label="Voting sessions" value={loaderData.sessions} />
+          <Stat label="Active today" value={loaderData.sessionsToday} />
+          <Stat label="Active this week" value={loaderData.sessionsThisWeek} />
+          <Stat label="Never compared" value={loaderData.neverComparedCount} />
+        </SimpleGrid>
+
+        <Section title="Votes per Day" description="Ties included, skips left out, over the last 30 days (UTC)">
+          <BarChart label="Votes per day" bars={loaderData.votesOverTime.map(day => ({ label: day.day, value: day.votes }))} />
+        </Section>
+
+        <Section title="Convergence" description={`How much today's top ${topSize} moved over the most recent votes`}>
+          {convergence.length === 0 ? (
+            <Text color="gray.400" fontSize="sm">No votes yet.</Text>
+          ) : (
+            <VStack gap="3" align="stretch">
+              <Text color={settled ? "green.400" : "yellow.400"}>
+                {settled
+                  ? `The top ${topSize} has settled: more votes are unlikely to change it much.`
+                  : `The top ${topSize} is still moving: keep collecting votes.`}
+              </Text>
+              <Table.Root size="sm" variant="outline">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeader>Over the last</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="end">Still in the top {topSize}</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="end">Average move</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="end">Largest move</Table.ColumnHeader>
+                    <Table.ColumnHeader>Leader</Table.ColumnHeader>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {convergence.map(window => (
+                    <Table.Row key={window.votes}>
+                      <Table.Cell>{window.votes} votes</Table.Cell>
+                      <Table.Cell textAlign="end">{window.topOverlap} of {Math.min(topSize, loaderData.imageCount)}</Table.Cell>
+                      <Table.Cell textAlign="end">{window.meanRankChange.toFixed(1)} places</Table.Cell>
+                      <Table.Cell textAlign="end">{window.maxRankChange} places</Table.Cell>
+                      <Table.Cell>{window.leaderChanged ? "Changed" : "Same"}</Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            </VStack>
+          )}
+        </Section>
+
+        <HStack w="full" gap="6" align="flex-start" flexDirection={{ base: "column", md: "row" }}>
+          <Box flex="1" w="full">
+            <Section title="Rating Distribution" description="Visible images by rating">
+              <BarChart label="Rating distribution" color="#68d391" bars={loaderData.ratingDistribution.map(bucket => ({ label: bucket.label, value: bucket.count }))} />
+            </Section>
+          </Box>
+          <Box flex="1" w="full">
+            <Section title="Votes per Image" description="Visible images by how many votes they've been in">
+              <BarChart label="Votes per image" color="#f6ad55" bars={loaderData.voteCountDistribution.map(bucket => ({ label: bucket.label, value: bucket.count }))} />
+            </Section>
+          </Box>
+        </HStack>
+
+        {loaderData.neverComparedCount > 0 && (
+          <Section
+            title="Never Compared"
+            description={loaderData.neverComparedCount > loaderData.neverCompared.length
+              ? `${loaderData.neverCompared.length} of ${loaderData.neverComparedCount} images without a vote`
+              : "Images without a vote"}
+          >
+            <SimpleGrid columns={{ base: 2, md: 4 }} gap="3">
+              {loaderData.neverCompared.map(image => (
+                <Link key={image.id} to={`/image/${image.id}`}>
+                  <HStack p="2" borderWidth="1px" borderColor="gray.600" borderRadius="md" bg="gray.800" _hover={{ bg: "gray.700" }}>
+                    <Image src={imageVariantUrl(image.url, { w: 64, fit: "cover" })} alt={image.name} w="10" h="10" objectFit="cover" borderRadius="md" loading="lazy" />
+                    <Text flex="1" color="white" fontSize="sm" truncate>{image.name}</Text>
+                  </HStack>
+                </Link>
+              ))}
+            </SimpleGrid>
+          </Section>
+        )}
+      </VStack>
+    </Box>
+  )
+}
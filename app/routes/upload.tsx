@@ -0,0 +1,89 @@
+import { Box, Heading, HStack, IconButton, Text, VStack } from "@chakra-ui/react"
+import { data, Link } from "react-router"
+import type { Route } from "./+types/upload"
+import { FaArrowLeft } from "react-icons/fa"
+import { UploadForm } from "~/components/upload-form"
+import { collectionPaths, getCollection } from "~/lib/collections.server"
+import { checkRateLimit, getClientIP, rateLimitHeaders } from "~/lib/rate-limit"
+import { readUploadForm, uploadedFiles, uploadImages, UploadError } from "~/lib/uploads.server"
+
+// Contributor uploads, enabled with ALLOW_CONTRIBUTOR_UPLOADS=true. New images stay hidden until an admin restores them.
+
+const MAX_CONTRIBUTOR_FILES = 10
+
+function requireContributorUploads() {
+  if (process.env.ALLOW_CONTRIBUTOR_UPLOADS !== "true") {
+    throw new Response("Not Found", { status: 404 })
+  }
+}
+
+export async function loader({ params }: Route.LoaderArgs) {
+  requireContributorUploads()
+  const collection = await getCollection(params.slug)
+
+  return { collection, paths: collectionPaths(collection), maxFiles: MAX_CONTRIBUTOR_FILES }
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+  requireContributorUploads()
+  const collection = await getCollection(params.slug)
+
+  const rateLimit = await checkRateLimit("upload", { ip: getClientIP(request) })
+  if (rateLimit && !rateLimit.allowed) {
+    const minutes = Math.ceil(rateLimit.retryAfterSeconds / 60)
+    return data(
+      { error: `Too many uploads. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`, results: [] },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    )
+  }
+
+  let formData: FormData
+  try {
+    formData = await readUploadForm(request)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return data({ error: error.message, results: [] }, { status: error.status })
+    }
+    throw error
+  }
+
+  const files = uploadedFiles(formData)
+  if (files.length === 0 || files.length > MAX_CONTRIBUTOR_FILES) {
+    return data({ error: `Choose between 1 and ${MAX_CONTRIBUTOR_FILES} files`, results: [] }, { status: 400 })
+  }
+
+  return { error: undefined, results: await uploadImages(files, collection, { hidden: true }) }
+}
+
+export function meta({ }: Route.MetaArgs) {
+  return [{ title: "Submit Images" }]
+}
+
+export default function Upload({ loaderData, actionData }: Route.ComponentProps) {
+  const { collection, paths, maxFiles } = loaderData
+
+  return (
+    <Box p={{ base: "4", md: "10" }} maxW="2xl" mx="auto" minH="100vh">
+      <VStack gap="6" align="stretch">
+        <HStack w="full" justifyContent="space-between" alignItems="center">
+          <IconButton asChild variant="ghost" color="white" _hover={{ bg: "gray.700" }}>
+            <Link to={paths.home}>
+              <FaArrowLeft />
+            </Link>
+          </IconButton>
+          <VStack gap="1" flex="1">
+            <Heading fontWeight="light" textAlign="center" color="white">
+              Submit Images
+            </Heading>
+            <Text fontSize="sm" color="gray.400">
+              {collection.name} · up to {maxFiles} files · shown after review
+            </Text>
+          </VStack>
+          <Box w="10" />
+        </HStack>
+
+        <UploadForm results={actionData?.results} error={actionData?.error} />
+      </VStack>
+    </Box>
+  )
+}
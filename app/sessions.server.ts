@@ -0,0 +1,40 @@
+import { createCookieSessionStorage, type Session } from "react-router"
+
+// Session storage for tracking user sessions
+export const sessionStorage = createCookieSessionStorage({
+    cookie: {
+        name: "__session",
+        secrets: [process.env.SESSION_SECRET || "default-secret-change-in-production"],
+        sameSite: "lax",
+        path: "/",
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 60 * 60 * 24 * 7, // 7 days
+    },
+})
+
+// Get or create the voter's session, returning its id alongside the session to commit
+export async function getVoterSession(request: Request): Promise<{ session: Session, sessionId: string }> {
+    const session = await sessionStorage.getSession(request.headers.get("Cookie"))
+    let sessionId = session.get("sessionId")
+
+    if (!sessionId) {
+        sessionId = crypto.randomUUID()
+        session.set("sessionId", sessionId)
+    }
+
+    return { session, sessionId }
+}
+
+// Separate, shorter-lived cookie for the admin area
+export const adminSessionStorage = createCookieSessionStorage({
+    cookie: {
+        name: "__admin",
+        secrets: [process.env.SESSION_SECRET || "default-secret-change-in-production"],
+        sameSite: "lax",
+        path: "/admin",
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 60 * 60 * 8, // 8 hours
+    },
+})
@@ -0,0 +1,64 @@
+/*
+# Create a key for the JSON API (the key is only printed once)
+npm run api-keys -- create "Slack bot"
+
+# List keys and when they were last used
+npm run api-keys -- list
+
+# Revoke a key by id
+npm run api-keys -- revoke 3
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { API_KEY_PREFIX_LENGTH, generateApiKey, hashApiKey } from '../app/lib/api-keys.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+    const [command, argument] = process.argv.slice(2)
+
+    switch (command) {
+        case 'create': {
+            if (!argument) throw new Error('Usage: api-keys create <name>')
+
+            const key = generateApiKey()
+            const apiKey = await prisma.apiKey.create({
+                data: { name: argument, prefix: key.slice(0, API_KEY_PREFIX_LENGTH), keyHash: hashApiKey(key) }
+            })
+            console.log(`Created API key ${apiKey.id} (${apiKey.name}). Store it now, it won't be shown again:\n`)
+            console.log(key)
+            break
+        }
+        case 'list': {
+            const apiKeys = await prisma.apiKey.findMany({ orderBy: { id: 'asc' } })
+            console.table(apiKeys.map(apiKey => ({
+                id: apiKey.id,
+                name: apiKey.name,
+                prefix: apiKey.prefix,
+                created: apiKey.createdAt.toISOString(),
+                lastUsed: apiKey.lastUsedAt?.toISOString() ?? 'never',
+                revoked: apiKey.revokedAt?.toISOString() ?? ''
+            })))
+            break
+        }
+        case 'revoke': {
+            const id = Number(argument)
+            if (!Number.isInteger(id)) throw new Error('Usage: api-keys revoke <id>')
+
+            await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } })
+            console.log(`Revoked API key ${id}`)
+            break
+        }
+        default:
+            throw new Error('Usage: api-keys <create|list|revoke>')
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
@@ -0,0 +1,84 @@
+/*
+# Fit a Bradley–Terry ranking to every collection's votes, with 95% confidence intervals from 200 resamples
+npm run bradley-terry
+
+# One collection, with more resamples for steadier intervals
+npm run bradley-terry -- --collection cats --samples 1000
+
+# Different coverage, and a different seed for the resampling
+npm run bradley-terry -- --confidence 0.9 --seed 7
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { runBradleyTerry } from '../app/lib/bradley-terry.server'
+
+const prisma = new PrismaClient()
+
+function positiveNumber(name: string, value: string | undefined) {
+    if (value === undefined) return undefined
+    const number = Number(value)
+    if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`--${name} must be a positive number, got "${value}"`)
+    }
+    return number
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'collection': { type: 'string' },
+            'samples': { type: 'string' },
+            'confidence': { type: 'string' },
+            'seed': { type: 'string' }
+        }
+    })
+
+    const samples = positiveNumber('samples', values.samples)
+    if (samples !== undefined && !Number.isInteger(samples)) {
+        throw new Error(`--samples must be a whole number, got "${values.samples}"`)
+    }
+    const confidence = positiveNumber('confidence', values.confidence)
+    if (confidence !== undefined && confidence >= 1) {
+        throw new Error(`--confidence must be between 0 and 1, got "${values.confidence}"`)
+    }
+    const seed = positiveNumber('seed', values.seed)
+
+    const collections = await prisma.collection.findMany({
+        where: values.collection ? { slug: values.collection } : {},
+        select: { id: true, slug: true },
+        orderBy: { id: 'asc' }
+    })
+    if (values.collection && collections.length === 0) {
+        throw new Error(`No collection with slug "${values.collection}"`)
+    }
+
+    for (const collection of collections) {
+        const started = Date.now()
+        const run = await runBradleyTerry(prisma, collection.id, { samples, confidence, seed })
+        console.log(`${collection.slug}: fitted ${run.imageCount} images to ${run.voteCount} votes in ${((Date.now() - started) / 1000).toFixed(1)}s (run ${run.id})`)
+
+        if (run.top.length > 0) {
+            const names = new Map((await prisma.image.findMany({
+                where: { id: { in: run.top.map(score => score.imageId) } },
+                select: { id: true, name: true }
+            })).map(image => [image.id, image.name]))
+            console.table(run.top.map(score => ({
+                rank: score.rank,
+                name: names.get(score.imageId),
+                rating: Math.round(score.rating),
+                interval: `${Math.round(score.ratingLow)}–${Math.round(score.ratingHigh)}`,
+                ranks: score.rankLow === score.rankHigh ? `${score.rankLow}` : `${score.rankLow}–${score.rankHigh}`
+            })))
+        }
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
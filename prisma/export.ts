@@ -0,0 +1,81 @@
+/*
+# Every collection's rankings as CSV, printed to stdout
+npm run export -- rankings > rankings.csv
+
+# One collection's vote history for January as NDJSON
+npm run export -- votes --format ndjson --collection cats --from 2025-01-01 --to 2025-02-01 --out votes.ndjson
+
+# Rankings including hidden images, as a JSON array
+npm run export -- rankings --format json --include-hidden --out rankings.json
+
+The same files can be downloaded from the admin page, and `npm run import` loads them into another database.
+*/
+
+import { PrismaClient } from '@prisma/client'
+import fs from 'fs'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { parseArgs } from 'util'
+import { exportDatasets, exportFormats, exportRows, isExportDataset, isExportFormat, type ExportFilters } from '../app/lib/export.server'
+
+const prisma = new PrismaClient()
+
+function parseDate(value: string | undefined, flag: string) {
+    if (!value) return undefined
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`--${flag} must be a date, got "${value}"`)
+    }
+    return date
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'format': { type: 'string', default: 'csv' },
+            'collection': { type: 'string' },
+            'from': { type: 'string' },
+            'to': { type: 'string' },
+            'include-hidden': { type: 'boolean', default: false },
+            'out': { type: 'string' }
+        }
+    })
+
+    const [dataset] = positionals
+    if (!isExportDataset(dataset)) {
+        throw new Error(`Pass what to export: ${exportDatasets.join(' or ')}`)
+    }
+    if (!isExportFormat(values.format)) {
+        throw new Error(`--format must be one of ${exportFormats.join(', ')}, got "${values.format}"`)
+    }
+
+    const filters: ExportFilters = {
+        from: parseDate(values.from, 'from'),
+        to: parseDate(values.to, 'to'),
+        includeHidden: values['include-hidden']
+    }
+    if (values.collection) {
+        const collection = await prisma.collection.findUnique({ where: { slug: values.collection }, select: { id: true } })
+        if (!collection) throw new Error(`No collection with slug "${values.collection}"`)
+        filters.collectionId = collection.id
+    }
+
+    const rows = Readable.from(exportRows(prisma, dataset, values.format, filters))
+    if (values.out) {
+        await pipeline(rows, fs.createWriteStream(values.out))
+        // Logged to stderr so it never ends up in a redirected export
+        console.error(`Wrote ${dataset} to ${values.out}`)
+    } else {
+        await pipeline(rows, process.stdout)
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
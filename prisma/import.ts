@@ -0,0 +1,62 @@
+/*
+# Load an export into a fresh database: images and ratings first, then the votes, then replay the history
+npm run import -- --rankings rankings.csv --votes votes.ndjson
+
+# Keep the exported ratings instead of recomputing them (e.g. when the vote export was filtered)
+npm run import -- --rankings rankings.json --votes votes.json --no-replay
+
+# Only images and their ratings
+npm run import -- --rankings rankings.csv
+
+The format is taken from the file extension: .csv, .json, or .ndjson/.jsonl. Vote history can only be imported into
+a database without votes. Image files aren't part of the export; copy them to the new storage separately.
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { importRankings, importVotes, readExportFile } from '../app/lib/import.server'
+import { currentRatingSettings, replayRatings } from '../app/lib/replay.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'rankings': { type: 'string' },
+            'votes': { type: 'string' },
+            'no-replay': { type: 'boolean', default: false }
+        }
+    })
+
+    if (!values.rankings && !values.votes) {
+        throw new Error('Pass --rankings <file>, --votes <file> or both')
+    }
+
+    if (values.rankings) {
+        const records = await readExportFile(values.rankings)
+        const { images, created } = await importRankings(prisma, records)
+        console.log(`Rankings: ${created} of ${images} images created, ${images - created} already existed`)
+    }
+
+    if (values.votes) {
+        const records = await readExportFile(values.votes)
+        const { votes, createdImages } = await importVotes(prisma, records)
+        console.log(`Votes: ${votes} imported${createdImages > 0 ? `, ${createdImages} images created for them` : ''}`)
+
+        if (values['no-replay']) {
+            console.log('\nRun `npm run replay` to recompute ratings from the imported votes')
+        } else {
+            const { matchCount } = await replayRatings(prisma, { ...await currentRatingSettings(prisma), dryRun: false })
+            console.log(`\nReplayed ${matchCount} votes`)
+        }
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
@@ -0,0 +1,182 @@
+/*
+# Fire 2000 concurrent votes at 10 images in a throwaway collection and check that no update was lost
+npm run load-test
+
+# More contention: fewer images, more votes in flight
+npm run load-test -- --images 4 --votes 5000 --concurrency 50
+
+# Test another rating engine and keep the collection afterwards for inspection
+npm run load-test -- --engine glicko2 --keep
+
+Votes go through the same locked rating update as the compare page and the API, without tickets or rate limits.
+Run it against a local database only: it writes real rows (removed afterwards unless --keep is given).
+*/
+
+import { PrismaClient, type MatchOutcome } from '@prisma/client'
+import { parseArgs } from 'util'
+import { createRatingEngine, isRatingEngineName, ratingEngineNames, ratingSettings } from '../app/lib/rating'
+import { recordMatch } from '../app/lib/record-match.server'
+
+const prisma = new PrismaClient()
+
+// Exact float comparisons would be fine for values copied from row to row; this only absorbs float8 round trips
+const TOLERANCE = 1e-9
+
+function parseCount(value: string, flag: string, min: number) {
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < min) {
+        throw new Error(`--${flag} must be a whole number of at least ${min}, got "${value}"`)
+    }
+    return parsed
+}
+
+function randomOutcome(): MatchOutcome {
+    const roll = Math.random()
+    return roll < 0.8 ? 'WIN' : roll < 0.9 ? 'DRAW' : 'SKIP'
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'images': { type: 'string', default: '10' },
+            'votes': { type: 'string', default: '2000' },
+            'concurrency': { type: 'string', default: '20' },
+            'engine': { type: 'string', default: ratingSettings.engine },
+            'keep': { type: 'boolean', default: false }
+        }
+    })
+
+    const imageCount = parseCount(values.images, 'images', 2)
+    const voteCount = parseCount(values.votes, 'votes', 1)
+    const concurrency = parseCount(values.concurrency, 'concurrency', 1)
+    if (!isRatingEngineName(values.engine)) {
+        throw new Error(`--engine must be one of ${ratingEngineNames.join(', ')}, got "${values.engine}"`)
+    }
+    const engine = createRatingEngine({ ...ratingSettings, engine: values.engine })
+    const initial = engine.initial()
+
+    const slug = `load-test-${Date.now()}`
+    const collection = await prisma.collection.create({ data: { slug, name: `Load test ${new Date().toISOString()}` } })
+    await prisma.image.createMany({
+        data: Array.from({ length: imageCount }, (_, i) => ({
+            collectionId: collection.id,
+            name: `Load test image ${i + 1}`,
+            url: `/external-images/${slug}/${i + 1}.webp`,
+            elo: initial.rating,
+            deviation: initial.deviation,
+            volatility: initial.volatility
+        }))
+    })
+    const imageIds = (await prisma.image.findMany({ where: { collectionId: collection.id }, select: { id: true } })).map(image => image.id)
+
+    console.log(`Casting ${voteCount} votes on ${imageCount} images with ${concurrency} in flight (${engine.name}, collection "${slug}")`)
+
+    try {
+        let next = 0
+        let failed = 0
+        const started = Date.now()
+
+        const worker = async () => {
+            while (next < voteCount) {
+                next++
+                const first = imageIds[Math.floor(Math.random() * imageIds.length)]
+                let second = first
+                while (second === first) second = imageIds[Math.floor(Math.random() * imageIds.length)]
+
+                try {
+                    await recordMatch(prisma, { winnerId: first, loserId: second, outcome: randomOutcome(), weight: 1, sessionId: slug }, engine)
+                } catch (error) {
+                    failed++
+                    console.error('Vote failed:', error instanceof Error ? error.message : error)
+                }
+            }
+        }
+        await Promise.all(Array.from({ length: concurrency }, worker))
+
+        const seconds = (Date.now() - started) / 1000
+        console.log(`Done in ${seconds.toFixed(1)}s (${Math.round(voteCount / seconds)} votes/s), ${failed} failed`)
+
+        const problems = await verify(imageIds, engine.name === 'elo' ? initial.rating : null)
+        for (const problem of problems.slice(0, 20)) console.log(`  ${problem}`)
+        if (problems.length > 20) console.log(`  ...and ${problems.length - 20} more`)
+
+        if (problems.length > 0 || failed > 0) {
+            console.log(`\nFAILED: ${problems.length} inconsistencies`)
+            process.exitCode = 1
+        } else {
+            console.log('\nOK: every vote started from the rating the previous one left behind')
+        }
+    } finally {
+        if (values.keep) {
+            console.log(`Kept collection "${slug}"`)
+        } else {
+            // Matches go with their images
+            await prisma.image.deleteMany({ where: { collectionId: collection.id } })
+            await prisma.collection.delete({ where: { id: collection.id } })
+        }
+    }
+}
+
+// Walks every image's matches in commit order: each must start from the rating the previous one ended with, and
+// the last must end at the stored rating. A lost update shows up as a match that started from a stale rating.
+// Elo is zero-sum, so there the ratings must also still add up to what they started at.
+async function verify(imageIds: number[], eloInitialRating: number | null) {
+    const problems: string[] = []
+
+    const [images, matches] = await Promise.all([
+        prisma.image.findMany({ where: { id: { in: imageIds } }, select: { id: true, elo: true, matchCount: true } }),
+        prisma.match.findMany({
+            where: { winnerId: { in: imageIds } },
+            select: { id: true, winnerId: true, loserId: true, outcome: true, winnerEloBefore: true, winnerEloAfter: true, loserEloBefore: true, loserEloAfter: true },
+            orderBy: { id: 'asc' }
+        })
+    ])
+
+    const ratings = new Map(images.map(image => [image.id, image.elo]))
+    const last = new Map<number, number>()
+    const counted = new Map<number, number>()
+
+    for (const match of matches) {
+        for (const [id, before, after] of [
+            [match.winnerId, match.winnerEloBefore, match.winnerEloAfter],
+            [match.loserId, match.loserEloBefore, match.loserEloAfter]
+        ] as const) {
+            const expected = last.get(id)
+            if (expected !== undefined && Math.abs(before - expected) > TOLERANCE) {
+                problems.push(`Match ${match.id}: image ${id} started at ${before}, but the previous match left it at ${expected}`)
+            }
+            last.set(id, after)
+            if (match.outcome !== 'SKIP') counted.set(id, (counted.get(id) ?? 0) + 1)
+        }
+    }
+
+    for (const image of images) {
+        const expected = last.get(image.id)
+        if (expected !== undefined && Math.abs(image.elo - expected) > TOLERANCE) {
+            problems.push(`Image ${image.id}: rated ${image.elo}, but its last match left it at ${expected}`)
+        }
+        if (image.matchCount !== (counted.get(image.id) ?? 0)) {
+            problems.push(`Image ${image.id}: ${image.matchCount} votes counted, but ${counted.get(image.id) ?? 0} recorded`)
+        }
+    }
+
+    if (eloInitialRating !== null) {
+        const total = [...ratings.values()].reduce((sum, rating) => sum + rating, 0)
+        const drift = total - eloInitialRating * images.length
+        console.log(`Rating points created or lost: ${drift.toFixed(6)}`)
+        if (Math.abs(drift) > 1e-6 * images.length) {
+            problems.push(`Ratings add up to ${total}, ${drift} away from where they started`)
+        }
+    }
+
+    return problems
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
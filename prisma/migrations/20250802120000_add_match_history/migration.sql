@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "MatchOutcome" AS ENUM ('WIN');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" SERIAL NOT NULL,
+    "winnerId" INTEGER NOT NULL,
+    "loserId" INTEGER NOT NULL,
+    "outcome" "MatchOutcome" NOT NULL DEFAULT 'WIN',
+    "winnerEloBefore" DOUBLE PRECISION NOT NULL,
+    "winnerEloAfter" DOUBLE PRECISION NOT NULL,
+    "loserEloBefore" DOUBLE PRECISION NOT NULL,
+    "loserEloAfter" DOUBLE PRECISION NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Match_winnerId_idx" ON "Match"("winnerId");
+
+-- CreateIndex
+CREATE INDEX "Match_loserId_idx" ON "Match"("loserId");
+
+-- CreateIndex
+CREATE INDEX "Match_sessionId_idx" ON "Match"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "Match_createdAt_idx" ON "Match"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_loserId_fkey" FOREIGN KEY ("loserId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "deviation" DOUBLE PRECISION,
+ADD COLUMN     "matchCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "volatility" DOUBLE PRECISION;
+
+-- Backfill match counts from the recorded history
+UPDATE "Image" AS i SET "matchCount" = (
+    SELECT COUNT(*) FROM "Match" AS m WHERE m."winnerId" = i."id" OR m."loserId" = i."id"
+);
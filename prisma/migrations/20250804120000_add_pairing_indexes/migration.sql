@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Image_matchCount_idx" ON "Image"("matchCount");
+
+-- CreateIndex
+CREATE INDEX "Image_deviation_desc_idx" ON "Image"("deviation" DESC);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "ticketId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Match_ticketId_key" ON "Match"("ticketId");
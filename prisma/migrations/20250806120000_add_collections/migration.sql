@@ -0,0 +1,41 @@
+-- DropIndex
+DROP INDEX "Image_deviation_desc_idx";
+
+-- DropIndex
+DROP INDEX "Image_matchCount_idx";
+
+-- CreateTable
+CREATE TABLE "Collection" (
+    "id" SERIAL NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Collection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Collection_slug_key" ON "Collection"("slug");
+
+-- Move existing images into a default collection
+INSERT INTO "Collection" ("slug", "name") VALUES ('default', 'All Images');
+
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "collectionId" INTEGER;
+
+UPDATE "Image" SET "collectionId" = (SELECT "id" FROM "Collection" WHERE "slug" = 'default');
+
+ALTER TABLE "Image" ALTER COLUMN "collectionId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Image_collectionId_elo_idx" ON "Image"("collectionId", "elo" DESC);
+
+-- CreateIndex
+CREATE INDEX "Image_collectionId_matchCount_idx" ON "Image"("collectionId", "matchCount");
+
+-- CreateIndex
+CREATE INDEX "Image_collectionId_deviation_idx" ON "Image"("collectionId", "deviation" DESC);
+
+-- AddForeignKey
+ALTER TABLE "Image" ADD CONSTRAINT "Image_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "sourceHash" TEXT,
+ADD COLUMN     "sourcePath" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Image_collectionId_sourcePath_key" ON "Image"("collectionId", "sourcePath");
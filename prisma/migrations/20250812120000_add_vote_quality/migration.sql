@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "MatchSide" AS ENUM ('LEFT', 'RIGHT');
+
+-- CreateEnum
+CREATE TYPE "SessionReviewStatus" AS ENUM ('DOWNWEIGHTED', 'QUARANTINED', 'CLEARED');
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "clientHash" TEXT,
+ADD COLUMN     "decisionMs" INTEGER,
+ADD COLUMN     "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "winnerSide" "MatchSide";
+
+-- CreateTable
+CREATE TABLE "SessionReview" (
+    "sessionId" TEXT NOT NULL,
+    "status" "SessionReviewStatus" NOT NULL,
+    "flags" TEXT[],
+    "details" JSONB,
+    "voteCount" INTEGER NOT NULL,
+    "analyzedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SessionReview_pkey" PRIMARY KEY ("sessionId")
+);
+
+-- CreateIndex
+CREATE INDEX "SessionReview_status_idx" ON "SessionReview"("status");
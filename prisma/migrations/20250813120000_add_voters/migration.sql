@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "Voter" (
+    "id" SERIAL NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Voter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VoterSession" (
+    "sessionId" TEXT NOT NULL,
+    "voterId" INTEGER NOT NULL,
+    "linkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoterSession_pkey" PRIMARY KEY ("sessionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Voter_codeHash_key" ON "Voter"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "VoterSession_voterId_idx" ON "VoterSession"("voterId");
+
+-- AddForeignKey
+ALTER TABLE "VoterSession" ADD CONSTRAINT "VoterSession_voterId_fkey" FOREIGN KEY ("voterId") REFERENCES "Voter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "MatchOutcome" ADD VALUE 'DRAW';
+ALTER TYPE "MatchOutcome" ADD VALUE 'SKIP';
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "Snapshot" (
+    "id" SERIAL NOT NULL,
+    "collectionId" INTEGER NOT NULL,
+    "label" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Snapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SnapshotEntry" (
+    "snapshotId" INTEGER NOT NULL,
+    "imageId" INTEGER NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "deviation" DOUBLE PRECISION,
+    "matchCount" INTEGER NOT NULL,
+
+    CONSTRAINT "SnapshotEntry_pkey" PRIMARY KEY ("snapshotId","imageId")
+);
+
+-- CreateIndex
+CREATE INDEX "Snapshot_collectionId_createdAt_idx" ON "Snapshot"("collectionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SnapshotEntry_imageId_idx" ON "SnapshotEntry"("imageId");
+
+-- AddForeignKey
+ALTER TABLE "Snapshot" ADD CONSTRAINT "Snapshot_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SnapshotEntry" ADD CONSTRAINT "SnapshotEntry_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "Snapshot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SnapshotEntry" ADD CONSTRAINT "SnapshotEntry_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "BradleyTerryRun" (
+    "id" SERIAL NOT NULL,
+    "collectionId" INTEGER NOT NULL,
+    "voteCount" INTEGER NOT NULL,
+    "samples" INTEGER NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "iterations" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BradleyTerryRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BradleyTerryScore" (
+    "runId" INTEGER NOT NULL,
+    "imageId" INTEGER NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "ratingLow" DOUBLE PRECISION NOT NULL,
+    "ratingHigh" DOUBLE PRECISION NOT NULL,
+    "rankLow" INTEGER NOT NULL,
+    "rankHigh" INTEGER NOT NULL,
+
+    CONSTRAINT "BradleyTerryScore_pkey" PRIMARY KEY ("runId","imageId")
+);
+
+-- CreateIndex
+CREATE INDEX "BradleyTerryRun_collectionId_createdAt_idx" ON "BradleyTerryRun"("collectionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BradleyTerryScore_imageId_idx" ON "BradleyTerryScore"("imageId");
+
+-- AddForeignKey
+ALTER TABLE "BradleyTerryRun" ADD CONSTRAINT "BradleyTerryRun_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BradleyTerryScore" ADD CONSTRAINT "BradleyTerryScore_runId_fkey" FOREIGN KEY ("runId") REFERENCES "BradleyTerryRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BradleyTerryScore" ADD CONSTRAINT "BradleyTerryScore_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
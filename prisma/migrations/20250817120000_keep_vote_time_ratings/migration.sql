@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "loserReplayAfter" DOUBLE PRECISION,
+ADD COLUMN     "loserReplayBefore" DOUBLE PRECISION,
+ADD COLUMN     "winnerReplayAfter" DOUBLE PRECISION,
+ADD COLUMN     "winnerReplayBefore" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "RatingReplay" (
+    "id" SERIAL NOT NULL,
+    "engine" TEXT NOT NULL,
+    "kFactor" DOUBLE PRECISION NOT NULL,
+    "initialRating" DOUBLE PRECISION NOT NULL,
+    "matchCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingReplay_pkey" PRIMARY KEY ("id")
+);
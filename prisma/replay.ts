@@ -0,0 +1,93 @@
+/*
+# Preview the effect of new settings without writing anything
+npx tsx prisma/replay.ts --dry-run --k-factor 24 --initial-rating 1500
+
+# Switch to another rating engine (elo, glicko2 or trueskill)
+npx tsx prisma/replay.ts --engine glicko2
+
+# Reset every rating and replay the full vote history
+npm run replay -- --k-factor 24 --initial-rating 1500
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { isRatingEngineName, ratingEngineNames, ratingSettings } from '../app/lib/rating'
+import { replayRatings } from '../app/lib/replay.server'
+
+const prisma = new PrismaClient()
+
+function parsePositive(value: string | undefined, fallback: number, flag: string) {
+    if (value === undefined) return fallback
+
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new Error(`--${flag} must be a positive number, got "${value}"`)
+    }
+    return parsed
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'dry-run': { type: 'boolean', default: false },
+            'engine': { type: 'string' },
+            'k-factor': { type: 'string' },
+            'initial-rating': { type: 'string' },
+            'top': { type: 'string', default: '20' }
+        }
+    })
+
+    const engine = values.engine ?? ratingSettings.engine
+    if (!isRatingEngineName(engine)) {
+        throw new Error(`--engine must be one of ${ratingEngineNames.join(', ')}, got "${engine}"`)
+    }
+
+    const options = {
+        dryRun: values['dry-run'],
+        engine,
+        kFactor: parsePositive(values['k-factor'], ratingSettings.kFactor, 'k-factor'),
+        initialRating: parsePositive(values['initial-rating'], ratingSettings.initialRating, 'initial-rating')
+    }
+    const top = parsePositive(values.top, 20, 'top')
+
+    console.log(`Replaying vote history with ${options.engine}, K=${options.kFactor}, initial rating ${options.initialRating}${options.dryRun ? ' (dry run)' : ''}`)
+
+    const { matchCount, changes } = await replayRatings(prisma, options)
+
+    const changed = changes.filter(change => Math.abs(change.after - change.before) >= 0.005)
+    const meanShift = changed.reduce((sum, change) => sum + Math.abs(change.after - change.before), 0) / (changed.length || 1)
+
+    console.log(`Replayed ${matchCount} matches across ${changes.length} images`)
+    console.log(`${changed.length} ratings changed, mean absolute shift ${meanShift.toFixed(1)}`)
+
+    if (changed.length > 0) {
+        console.log(`\nLargest ${Math.min(top, changed.length)} changes:`)
+        console.table(
+            changed
+                .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before))
+                .slice(0, top)
+                .map(change => ({
+                    id: change.id,
+                    name: change.name,
+                    before: Math.round(change.before),
+                    after: Math.round(change.after),
+                    diff: Math.round(change.after - change.before)
+                }))
+        )
+    }
+
+    if (options.dryRun) {
+        console.log('\nDry run: no ratings were written')
+    } else {
+        console.log('\nRatings and match history updated')
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
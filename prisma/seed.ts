@@ -1,13 +1,23 @@
 import { PrismaClient } from '@prisma/client'
 import fs from 'fs'
 import path from 'path'
-import sharp from 'sharp'
+import { imageUrl, optimizeImage } from '../app/lib/images.server'
+import { ratingSettings } from '../app/lib/rating'
+import { storage } from '../app/lib/storage'
 
 const prisma = new PrismaClient()
 
 async function main() {
-  // Clear existing data
-  await prisma.image.deleteMany()
+  // Images are added to the collection named by COLLECTION_SLUG (the default collection if unset)
+  const collectionSlug = process.env.COLLECTION_SLUG || 'default'
+  const collection = await prisma.collection.upsert({
+    where: { slug: collectionSlug },
+    update: {},
+    create: { slug: collectionSlug, name: collectionSlug }
+  })
+
+  // Clear existing data in this collection. To add or update images without losing ratings, use `npm run sync`.
+  await prisma.image.deleteMany({ where: { collectionId: collection.id } })
 
   // Scan the twitterMoots folder
   const sourceDir = 'placeholder'
@@ -23,59 +33,33 @@ async function main() {
       return
     }
 
-    // Copy images to the optimized directory and create database entries
-    const optimizedDir = 'placeholder'
-
-    // Create optimized directory if it doesn't exist
-    if (!fs.existsSync(optimizedDir)) {
-      fs.mkdirSync(optimizedDir, { recursive: true })
-    }
-
     const imageData = []
 
     for (const file of imageFiles) {
       const sourcePath = path.join(sourceDir, file)
-      const ext = path.extname(file).toLowerCase()
       const nameWithoutExt = file.replace(/\.[^/.]+$/, "")
-      const optimizedFileName = `${nameWithoutExt}.webp`
-      const destPath = path.join(optimizedDir, optimizedFileName)
+      const key = `${collection.slug}/${nameWithoutExt}.webp`
 
       try {
-        // Optimize and convert image to WebP for better compression
-        await sharp(sourcePath)
-          .resize(800, 600, {
-            fit: 'inside',
-            withoutEnlargement: true
-          })
-          .webp({
-            quality: 85,
-            effort: 4
-          })
-          .toFile(destPath)
+        // Optimize and convert image to WebP, using the same pipeline as browser uploads
+        await storage.write(key, await optimizeImage(fs.readFileSync(sourcePath)), 'image/webp')
 
-        console.log(`Optimized: ${file} -> ${optimizedFileName}`)
+        console.log(`Optimized: ${file} -> ${key}`)
 
-        // Create database entry (you may need to adjust the URL path)
         imageData.push({
           name: nameWithoutExt,
-          url: `/optimized/${optimizedFileName}`,
-          elo: 1200.0
+          url: imageUrl(key),
+          elo: ratingSettings.initialRating,
+          collectionId: collection.id
         })
       } catch (error) {
         console.error(`Failed to optimize ${file}:`, error)
-        // Fallback: copy original file
-        fs.copyFileSync(sourcePath, path.join(optimizedDir, file))
-        imageData.push({
-          name: nameWithoutExt,
-          url: `/optimized/${file}`,
-          elo: 1200.0
-        })
       }
     }
 
     await prisma.image.createMany({ data: imageData })
     console.log(`Imported ${imageData.length} images from twitterMoots folder!`)
-    console.log('Images copied to placeholder/ and added to database')
+    console.log('Images written to image storage and added to database')
   } else {
     console.error('twitterMoots folder not found at:', sourceDir)
   }
@@ -89,12 +73,3 @@ main()
   .finally(async () => {
     await prisma.$disconnect()
   })
-
-main()
-  .catch((e) => {
-    console.error(e)
-    process.exit(1)
-  })
-  .finally(async () => {
-    await prisma.$disconnect()
-  })
\ No newline at end of file
@@ -6,12 +6,21 @@ npx tsx prisma/seedLight.ts
 import { PrismaClient } from '@prisma/client'
 import fs from 'fs'
 import path from 'path'
+import { ratingSettings } from '../app/lib/rating'
 
 const prisma = new PrismaClient()
 
 async function main() {
-    // Clear existing data
-    await prisma.image.deleteMany()
+    // Images are added to the collection named by COLLECTION_SLUG (the default collection if unset)
+    const collectionSlug = process.env.COLLECTION_SLUG || 'default'
+    const collection = await prisma.collection.upsert({
+        where: { slug: collectionSlug },
+        update: {},
+        create: { slug: collectionSlug, name: collectionSlug }
+    })
+
+    // Clear existing data in this collection. To add or update images without losing ratings, use `npm run sync`.
+    await prisma.image.deleteMany({ where: { collectionId: collection.id } })
 
     // Scan the optimized folder
     const optimizedDir = 'placeholder'
@@ -42,7 +51,8 @@ async function main() {
         imageData.push({
             name: nameWithoutExt,
             url: `/external-images/${file}`, // Changed to proper web URL format
-            elo: 1200.0
+            elo: ratingSettings.initialRating,
+            collectionId: collection.id
         })
     }
 
@@ -0,0 +1,58 @@
+/*
+# Snapshot every collection's leaderboard now
+npm run snapshot
+
+# One collection, with a label to find it by later
+npm run snapshot -- --collection cats --label "Week 12"
+
+# From cron: run as often as you like, at most one snapshot per collection every 24 hours is taken
+npm run snapshot -- --every 24
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { takeSnapshots } from '../app/lib/snapshots.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'collection': { type: 'string' },
+            'label': { type: 'string' },
+            'every': { type: 'string' }
+        }
+    })
+
+    let minIntervalMs: number | undefined
+    if (values.every !== undefined) {
+        const hours = Number(values.every)
+        if (!Number.isFinite(hours) || hours <= 0) {
+            throw new Error(`--every must be a positive number of hours, got "${values.every}"`)
+        }
+        minIntervalMs = hours * 60 * 60 * 1000
+    }
+
+    let collectionId: number | undefined
+    if (values.collection) {
+        const collection = await prisma.collection.findUnique({ where: { slug: values.collection }, select: { id: true } })
+        if (!collection) throw new Error(`No collection with slug "${values.collection}"`)
+        collectionId = collection.id
+    }
+
+    const results = await takeSnapshots(prisma, { collectionId, label: values.label, minIntervalMs })
+    for (const { collection, snapshot } of results) {
+        console.log(snapshot
+            ? `${collection.slug}: snapshot ${snapshot.id} with ${snapshot.imageCount} images`
+            : `${collection.slug}: skipped, snapshotted less than ${values.every} hours ago`)
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
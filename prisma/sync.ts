@@ -0,0 +1,94 @@
+/*
+# Preview what a sync would change
+npm run sync -- ~/Pictures/cats --collection cats --dry-run
+
+# Add new and changed files, keeping every existing rating
+npm run sync -- ~/Pictures/cats --collection cats
+
+# Hide images whose source file has been removed
+npm run sync -- ~/Pictures/cats --collection cats --hide-missing
+
+# Take names and metadata from a manifest (CSV with a header row, or a JSON array)
+npm run sync -- ~/Pictures/cats --collection cats --manifest cats.csv
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { readManifest, scanSourceDir, syncImages, type SyncAction } from '../app/lib/sync.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            'collection': { type: 'string', default: process.env.COLLECTION_SLUG || 'default' },
+            'manifest': { type: 'string' },
+            'prefix': { type: 'string' },
+            'hide-missing': { type: 'boolean', default: false },
+            'dry-run': { type: 'boolean', default: false }
+        }
+    })
+
+    const [sourceDir] = positionals
+    if (!sourceDir) {
+        throw new Error('Usage: npm run sync -- <source-folder> [--collection slug] [--manifest file] [--prefix folder] [--hide-missing] [--dry-run]')
+    }
+
+    const slug = values.collection
+    const collection = values['dry-run']
+        ? await prisma.collection.findUnique({ where: { slug } }) ?? { id: -1, slug }
+        : await prisma.collection.upsert({ where: { slug }, update: {}, create: { slug, name: slug } })
+
+    const entries = values.manifest ? await readManifest(values.manifest) : await scanSourceDir(sourceDir)
+    console.log(`Syncing ${entries.length} files from ${sourceDir} into "${slug}"${values['dry-run'] ? ' (dry run)' : ''}`)
+
+    const changes = await syncImages(prisma, {
+        collection,
+        sourceDir,
+        entries,
+        // Optimized files go to a folder named after the collection unless told otherwise
+        keyPrefix: values.prefix ?? slug,
+        hideMissing: values['hide-missing'],
+        dryRun: values['dry-run']
+    })
+
+    const counts = changes.reduce((totals, change) => {
+        totals[change.action] = (totals[change.action] ?? 0) + 1
+        return totals
+    }, {} as Partial<Record<SyncAction, number>>)
+
+    const listed = changes.filter(change => change.action !== 'unchanged')
+    if (listed.length > 0) {
+        console.table(listed.map(change => ({
+            action: change.action,
+            file: change.file,
+            name: change.name,
+            id: change.imageId ?? '',
+            details: change.error ?? change.reasons?.join(', ') ?? ''
+        })))
+    }
+
+    console.log(
+        `${counts.add ?? 0} added, ${counts.update ?? 0} updated, ${counts.unchanged ?? 0} unchanged, ` +
+        `${counts.hide ?? 0} hidden, ${counts.missing ?? 0} missing, ${counts.error ?? 0} failed`
+    )
+    if (counts.missing) {
+        console.log('Missing images were left visible; pass --hide-missing to hide them')
+    }
+    if (values['dry-run']) {
+        console.log('\nDry run: nothing was written')
+    }
+    if (counts.error) {
+        process.exitCode = 1
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })
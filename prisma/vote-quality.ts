@@ -0,0 +1,61 @@
+/*
+# Show which sessions would be flagged, without changing anything
+npm run vote-quality -- --dry-run
+
+# Flag sessions, reweight their votes and replay ratings
+npm run vote-quality
+
+# Flag and reweight, but leave the replay for later (e.g. `npm run replay`)
+npm run vote-quality -- --no-replay
+*/
+
+import { PrismaClient } from '@prisma/client'
+import { parseArgs } from 'util'
+import { currentRatingSettings, replayRatings } from '../app/lib/replay.server'
+import { analyzeVoteQuality } from '../app/lib/vote-quality.server'
+
+const prisma = new PrismaClient()
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            'dry-run': { type: 'boolean', default: false },
+            'no-replay': { type: 'boolean', default: false }
+        }
+    })
+
+    const dryRun = values['dry-run']
+    console.log(`Analyzing vote quality${dryRun ? ' (dry run)' : ''}`)
+
+    const { analyzedSessions, verdicts, reweightedSessions } = await analyzeVoteQuality(prisma, { dryRun })
+
+    console.log(`Analyzed ${analyzedSessions} sessions with enough votes`)
+    if (verdicts.length > 0) {
+        console.table(verdicts.map(verdict => ({
+            session: verdict.sessionId.slice(0, 12),
+            votes: verdict.voteCount,
+            flags: verdict.flags.join(', ') || '-',
+            before: verdict.previousStatus ?? '-',
+            after: verdict.status ?? '-'
+        })))
+    }
+    console.log(`${reweightedSessions} sessions change weight`)
+
+    if (dryRun) {
+        console.log('\nDry run: nothing was written')
+    } else if (reweightedSessions > 0 && !values['no-replay']) {
+        const { matchCount } = await replayRatings(prisma, { ...await currentRatingSettings(prisma), dryRun: false })
+        console.log(`\nReplayed ${matchCount} votes with the new weights`)
+    } else if (reweightedSessions > 0) {
+        console.log('\nRun `npm run replay` to apply the new weights to past votes')
+    }
+}
+
+main()
+    .catch((e) => {
+        console.error(e)
+        process.exit(1)
+    })
+    .finally(async () => {
+        await prisma.$disconnect()
+    })